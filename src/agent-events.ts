@@ -0,0 +1,70 @@
+// Typed Agent Events
+// AgentManager reports everything it does as structured events. The terminal, the
+// Hypha service and embedding hosts subscribe to the events they need instead of
+// parsing output text.
+import type { QueryUsage, StepUsage, UsageTotals } from './usage';
+import type { PlanStep } from './plan';
+
+export type AgentDoneReason = 'completed' | 'cancelled' | 'max_steps' | 'loop_detected' | 'error';
+
+export type AgentEvent =
+  // A reasoning step (one LLM call and its tool calls) begins
+  | { type: 'step_start'; step: number; maxSteps: number }
+  // Streamed assistant text
+  | { type: 'content_delta'; step: number; delta: string }
+  // Streamed reasoning ("thinking") of reasoning models; never added to the history
+  | { type: 'reasoning_delta'; step: number; delta: string }
+  // A stream failed midway: the deltas it emitted are not part of the reply (it is retried or the query fails)
+  | { type: 'stream_discarded'; step: number }
+  // The model called a tool (arguments already parsed)
+  | { type: 'tool_call'; step: number; id: string; name: string; arguments: any }
+  // A tool replied; `content` is the tool message sent back to the model
+  | { type: 'tool_result'; step: number; id: string; name: string; success: boolean; cancelled: boolean; content: string }
+  // An LLM call reported token usage
+  | { type: 'usage'; step: number; usage: StepUsage; query: QueryUsage; session: UsageTotals }
+  // The task checklist changed (updated by the model, restored or cleared)
+  | { type: 'plan'; steps: PlanStep[] }
+  // Event of a child agent started with delegate_task
+  | { type: 'child'; taskId: string; task: string; event: AgentEvent }
+  // A query failed (after retries)
+  | { type: 'error'; step: number; message: string }
+  // A query finished; `content` is the final answer, `result` the validated structured result (if any)
+  | { type: 'done'; reason: AgentDoneReason; steps: number; content: string; result?: unknown; usage: QueryUsage }
+  // Human-readable status line (retries, compaction, approval decisions, recording, replay...)
+  | { type: 'log'; level: 'info' | 'warning' | 'error'; message: string };
+
+export type AgentEventType = AgentEvent['type'];
+export type AgentEventOf<T extends AgentEventType> = Extract<AgentEvent, { type: T }>;
+export type AgentEventListener<T extends AgentEventType> = (event: AgentEventOf<T>) => void;
+
+export class AgentEventEmitter {
+  private listeners: Map<AgentEventType | '*', Set<(event: any) => void>> = new Map();
+
+  /**
+   * Subscribe to one event type, or to all events with '*'. Returns an unsubscribe function.
+   */
+  on<T extends AgentEventType>(type: T, listener: AgentEventListener<T>): () => void;
+  on(type: '*', listener: (event: AgentEvent) => void): () => void;
+  on(type: AgentEventType | '*', listener: (event: any) => void): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  off(type: AgentEventType | '*', listener: (event: any) => void): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  emit(event: AgentEvent): void {
+    for (const listener of [...(this.listeners.get(event.type) ?? []), ...(this.listeners.get('*') ?? [])]) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A failing subscriber must not break the agent loop
+        console.error(`[Agent] Event listener for "${event.type}" failed:`, error);
+      }
+    }
+  }
+}
@@ -1,11 +1,44 @@
-// OpenAI Agent Manager for Code Execution
-import OpenAI from 'openai';
-import type { AgentSettings } from './settings';
+// Agent Manager for Code Execution
+import { getExecutionTimeout, normalizeSettings, type AgentSettings } from './settings';
+import { createFallbackProvider, createLLMProvider, type LLMChatRequest, type LLMChunk, type LLMProvider, type LLMUsage } from './llm-provider';
+import { getRetryDelayMs, isRetryableError, sleep } from './retry';
+import { ConversationTree, type ConversationTreeData } from './conversation-tree';
+import { addUsage, computeCost, emptyUsageTotals, formatCost, type QueryUsage, type StepUsage, type UsageTotals } from './usage';
+import { AgentEventEmitter, type AgentDoneReason, type AgentEventOf } from './agent-events';
+import { formatObservation, getTextProtocolInstructions, isObservationMessage, matchesModelList, parseTextToolCalls, type TextToolCall } from './text-tool-protocol';
+import {
+  CassetteRecorder,
+  ReplayProvider,
+  compareExecutionResults,
+  type Cassette,
+  type CassetteExecution,
+  type ReplayDivergence
+} from './cassette';
+import { getApprovalReasons, type ApprovalDecision, type ApprovalHandler } from './approval';
+import { validateJsonSchema } from './json-schema';
+import { PLAN_STEP_STATUSES, TaskPlan, type PlanStep } from './plan';
+import { LoopDetector } from './loop-detector';
+import { ThinkTagSplitter, getReasoningDelta, splitThinkTags } from './reasoning';
 import type { KernelManager, ExecutionResult } from './kernel';
 
+/**
+ * Content part of a multimodal message (OpenAI chat format)
+ */
+export type AgentContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
 export interface AgentMessage {
   role: 'user' | 'assistant' | 'system';
-  content: string;
+  content: string | AgentContentPart[];
+}
+
+/**
+ * Image produced by a code execution (base64 data without data URL prefix)
+ */
+interface ExecutionImage {
+  mimeType: 'image/png' | 'image/jpeg';
+  data: string;
 }
 
 export interface AgentResponse {
@@ -15,6 +48,254 @@ export interface AgentResponse {
   executionResult?: ExecutionResult;
 }
 
+/**
+ * JSON schema describing a tool for the model (OpenAI function format, without the name)
+ */
+export interface ToolSchema {
+  description: string;
+  parameters?: any;
+}
+
+/**
+ * Handler invoked when the model calls a registered tool.
+ * Returned strings are used as the tool message content as-is, anything else is JSON-encoded.
+ */
+export type ToolHandler = (args: any) => Promise<any>;
+
+interface RegisteredTool {
+  schema: ToolSchema;
+  handler: ToolHandler;
+}
+
+/**
+ * Creates and initializes a separate kernel for a child agent
+ */
+export type KernelFactory = () => Promise<KernelManager>;
+
+/**
+ * Options for a React loop run
+ */
+export interface RunOptions {
+  resultSchema?: any; // JSON schema the `result` of final_answer must match
+}
+
+/**
+ * Answer the model finished a run with through the final_answer tool
+ */
+export interface FinalAnswer {
+  answer: string;
+  result?: any; // Validated against the result schema when one was given
+}
+
+// Built-in tool definition for Python code execution
+const EXECUTE_CODE_TOOL: ToolSchema = {
+  description: 'Execute Python code in the browser-based Python kernel. Use this to run Python code, perform calculations, create visualizations, or process data.',
+  parameters: {
+    type: 'object',
+    properties: {
+      code: {
+        type: 'string',
+        description: 'The Python code to execute. Can be multiple lines.'
+      },
+      explanation: {
+        type: 'string',
+        description: 'A brief explanation of what this code does and why you are running it.'
+      },
+      timeout: {
+        type: 'number',
+        description: 'Optional timeout in seconds for long-running code such as large package installs (defaults to the configured execution timeout).'
+      }
+    },
+    required: ['code', 'explanation']
+  }
+};
+
+const LIST_VARIABLES_TOOL: ToolSchema = {
+  description: 'List the variables in the Python kernel namespace with their type, shape or length, memory size and a short repr. Use it to check what data exists instead of printing variables.',
+  parameters: {
+    type: 'object',
+    properties: {}
+  }
+};
+
+// Built-in tools for keeping a task checklist
+const UPDATE_PLAN_TOOL: ToolSchema = {
+  description: 'Create or replace your task plan: an ordered checklist of short steps. Steps with unchanged titles keep their status.',
+  parameters: {
+    type: 'object',
+    properties: {
+      steps: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Step titles in order (3-5 words each).'
+      }
+    },
+    required: ['steps']
+  }
+};
+
+const MARK_STEP_TOOL: ToolSchema = {
+  description: 'Update the status of a step in your task plan.',
+  parameters: {
+    type: 'object',
+    properties: {
+      step: {
+        type: 'number',
+        description: 'Step number (1-based).'
+      },
+      status: {
+        type: 'string',
+        enum: PLAN_STEP_STATUSES,
+        description: 'New status of the step.'
+      },
+      note: {
+        type: 'string',
+        description: 'Optional short result or reason.'
+      }
+    },
+    required: ['step', 'status']
+  }
+};
+
+// Child agents cannot delegate further than this depth
+const MAX_DELEGATION_DEPTH = 1;
+// Default step budget of a child agent
+const DEFAULT_CHILD_STEPS = 10;
+
+// Built-in tool for handing a subtask to a child agent
+const DELEGATE_TASK_TOOL: ToolSchema = {
+  description: 'Delegate a self-contained subtask (e.g. "clean the dataset in df" or "build the report") to a child agent with its own conversation and step budget. The child only sees the task and context you give it, and its summary is returned as the result.',
+  parameters: {
+    type: 'object',
+    properties: {
+      task: {
+        type: 'string',
+        description: 'What the child agent should do and the expected outcome.'
+      },
+      context: {
+        type: 'string',
+        description: 'Relevant facts from your work so far: variable names, files, findings.'
+      },
+      max_steps: {
+        type: 'number',
+        description: `Step budget of the child agent (default: ${DEFAULT_CHILD_STEPS}).`
+      },
+      kernel: {
+        type: 'string',
+        enum: ['shared', 'separate'],
+        description: '"shared" (default) runs in your kernel with access to your variables; "separate" starts a fresh kernel for isolated work.'
+      }
+    },
+    required: ['task']
+  }
+};
+
+// Built-in tool that ends a run with the model's answer and optional structured result
+const FINAL_ANSWER_TOOL = 'final_answer';
+// Rejected final answers (or replies without one when a result schema is required) before giving up
+const MAX_FINAL_ANSWER_REPAIRS = 2;
+
+/**
+ * Schema of the final_answer tool, with a `result` parameter when a result schema is required
+ */
+function getFinalAnswerToolSchema(resultSchema: any | null): ToolSchema {
+  return {
+    description: resultSchema
+      ? 'Finish the task: give your final answer to the user and the structured `result`, which must match the required JSON schema. The run ends after this call.'
+      : 'Finish the task: give your final answer to the user. Call this once the task is complete; the run ends after this call.',
+    parameters: {
+      type: 'object',
+      properties: {
+        answer: {
+          type: 'string',
+          description: 'Final answer for the user (markdown), summarizing what was done and the results.'
+        },
+        ...(resultSchema && { result: resultSchema })
+      },
+      required: resultSchema ? ['answer', 'result'] : ['answer']
+    }
+  };
+}
+
+// Number of most recent user turns that are always kept verbatim when compacting
+const KEEP_RECENT_TURNS = 2;
+// Number of most recent messages whose tool outputs are never elided
+const KEEP_RECENT_TOOL_OUTPUTS = 4;
+// Max characters kept from a tool output once it has been elided
+const ELIDED_TOOL_OUTPUT_LENGTH = 200;
+// Marker that identifies a compacted summary message in history
+const COMPACTION_MARKER = '[Session so far - compacted summary]';
+
+const COMPACTION_PROMPT = `You are compacting the transcript of a coding session between a user and an AI assistant that executes Python code in a Pyodide kernel.
+Write a concise summary of the session so far that lets the assistant continue the work. Include:
+- The user's goals and requests
+- Important results, numbers and conclusions
+- Variables, dataframes, functions, files and installed packages that exist in the kernel (with names)
+- Errors encountered and how they were resolved
+- Anything still pending
+Use short bullet points. Do not invent details that are not in the transcript.`;
+
+// Approximate token cost counted for each attached image when estimating context size
+const IMAGE_TOKEN_ESTIMATE = 800;
+
+/**
+ * Get the plain text of a message content (text parts joined, images as placeholders)
+ */
+function getMessageText(content: string | AgentContentPart[] | null | undefined): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(part => part.type === 'text' ? part.text : '<image>')
+    .join('\n');
+}
+
+/**
+ * Whether a tool message reports success (JSON results with `success: false` count as failures)
+ */
+function isSuccessfulToolResult(content: string): boolean {
+  try {
+    const parsed = JSON.parse(content);
+    return !(parsed && typeof parsed === 'object' && parsed.success === false);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Downscale a base64 image so that its longest side is at most maxSize pixels.
+ * Returns a data URL; falls back to the original image if it cannot be decoded.
+ */
+async function downscaleImage(image: ExecutionImage, maxSize: number): Promise<string> {
+  const originalUrl = `data:${image.mimeType};base64,${image.data}`;
+
+  try {
+    const blob = await (await fetch(originalUrl)).blob();
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+
+    if (scale >= 1) {
+      bitmap.close();
+      return originalUrl;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      bitmap.close();
+      return originalUrl;
+    }
+
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL(image.mimeType);
+  } catch (error) {
+    console.warn('[Agent] Failed to downscale image, sending original:', error);
+    return originalUrl;
+  }
+}
+
 // System prompt for the code agent
 const DEFAULT_SYSTEM_PROMPT = `You are a powerful AI coding assistant with access to a Python kernel running in the browser.`
 
@@ -35,7 +316,7 @@ You are running in a **Pyodide-based Jupyter notebook kernel** in the user's bro
   - ✅ Correct: \`result = await some_async_function()\`
   - ❌ Wrong: \`asyncio.run(some_async_function())\` (don't use this!)
 - **State Persistence**: All variables, imports, and data persist between code executions
-- **Automatic Display**: Matplotlib/Plotly plots display automatically - no need to save/show
+- **Automatic Display**: Matplotlib plots, images, pandas tables, SVG, Markdown, LaTeX and JSON outputs display automatically - no need to save/show. Interactive JavaScript charts (Plotly, Bokeh) cannot be shown; use Matplotlib or a static image instead
 - **Package Management**: Use \`import micropip; await micropip.install('package-name')\`
 - **Network**: HTTP requests available through standard requests library
 - **File System**: Limited file system access (browser environment)
@@ -44,24 +325,24 @@ You are running in a **Pyodide-based Jupyter notebook kernel** in the user's bro
 **Multi-Step Reasoning Loop (React Pattern)**
 You are operating in a **React loop** that continues as long as you call the executeCode tool:
 - **Loop continues**: Every time you use executeCode, the loop continues for another iteration
-- **Loop stops**: When you respond without calling any tools, the loop ends and your response is final
-- **Planning with print()**: Use CONCISE print() statements (3-5 words each) to plan without ending the loop
-  - ✅ Good: print("1.Load data 2.Analyze 3.Visualize")
+- **Loop stops**: When you call the \`final_answer\` tool (or respond without calling any tools), the loop ends and your answer is final
+- **Planning with update_plan**: For multi-step tasks, call \`update_plan\` with a short ordered checklist (3-5 words per step), then call \`mark_step\` as each step starts and finishes
+  - ✅ Good: update_plan(steps=["Load data", "Analyze", "Visualize"])
   - ❌ Bad: Long explanatory paragraphs about what you're going to do
-  - Keep planning brief - just enough to show next steps
+  - The current plan is shown to you at every step; keep it up to date when your approach changes
 
 For complex queries, use this React loop pattern:
-1. **Analyze**: Break down into steps (print brief plan in 3-5 words per step)
+1. **Analyze**: Break down into steps (record them with update_plan)
 2. **Execute**: Run code step-by-step, building context gradually
 3. **Observe**: Check execution results and adapt your approach
 4. **Iterate**: Continue calling executeCode until the task is complete
-5. **Conclude**: Only respond without tools when you're done
+5. **Conclude**: Call \`final_answer\` with your answer when you're done
 
 Example workflow for complex tasks:
-- First execution: print("Plan: import->explore->process") then run imports and exploration
+- First: update_plan with the steps, then run imports and exploration
 - Second execution: Process/analyze data based on what you learned
 - Third execution: Generate visualizations or final results
-- Keep thinking/planning CONCISE - use print() for brief status updates only
+- Keep thinking/planning CONCISE - mark_step each step and use print() for brief status updates only
 
 **Code Execution Guidelines**
 - Write clean, well-commented Python code
@@ -86,169 +367,988 @@ Example workflow for complex tasks:
 `;
 
 export class AgentManager {
-  private client: OpenAI | null = null;
+  private provider: LLMProvider | null = null;
+  private fallbackProvider: LLMProvider | null = null;
+  private usingFallback: boolean = false; // Switched to the fallback for the rest of the current query
+  private resumableStep: { step: number; maxSteps: number } | null = null; // ReAct step that failed
   private settings: AgentSettings;
   private kernelManager: KernelManager;
-  private conversationHistory: AgentMessage[] = [];
-  private onOutput: (message: string, type?: string, append?: boolean) => void;
-
-  constructor(
-    settings: AgentSettings,
-    kernelManager: KernelManager,
-    onOutput: (message: string, type?: string, append?: boolean) => void
-  ) {
-    this.settings = settings;
+  private conversationHistory: AgentMessage[] = []; // Working copy of the active branch (may be compacted)
+  private conversationTree: ConversationTree = new ConversationTree(); // Full history with all branches
+  private tools: Map<string, RegisteredTool> = new Map();
+  private abortController: AbortController | null = null;
+  private isExecutingCode: boolean = false;
+  private pendingImages: ExecutionImage[] = []; // Images to attach after the current tool replies
+  private recorder: CassetteRecorder | null = null;
+  private approvalHandler: ApprovalHandler | null = null;
+  private queryUsage: QueryUsage = { ...emptyUsageTotals(), steps: [] };
+  private sessionUsage: UsageTotals = emptyUsageTotals();
+  private currentStep: number = 0; // Step the usage of LLM calls is attributed to
+  private detectedTextModels: Set<string> = new Set(); // Models found answering with code instead of tool calls
+  private nativeToolModels: Set<string> = new Set(); // Models that made native tool calls, never auto-switched
+  private resultSchema: any | null = null; // Result schema of the current query
+  private finalAnswer: FinalAnswer | null = null;
+  private finalAnswerRepairs: number = 0;
+  private plan: TaskPlan = new TaskPlan();
+  private uploadedFiles: Map<string, number> = new Map(); // Path -> size of files the user uploaded into the kernel
+  private loopDetector: LoopDetector = new LoopDetector(); // Spots repeated failures within a React loop
+  private depth: number; // 0 for the main agent, 1 for a child agent started by delegate_task
+  private kernelFactory: KernelFactory | null = null;
+  private activeChild: AgentManager | null = null;
+  private replayState: { expected: CassetteExecution[]; index: number; divergences: ReplayDivergence[]; stopped: boolean } | null = null;
+  readonly events: AgentEventEmitter = new AgentEventEmitter();
+
+  constructor(settings: AgentSettings, kernelManager: KernelManager, depth: number = 0) {
+    this.settings = normalizeSettings(settings);
     this.kernelManager = kernelManager;
-    this.onOutput = onOutput;
-    this.initializeClient();
+    this.depth = depth;
+    this.registerBuiltinTools();
+    this.initializeProvider();
   }
 
-  private initializeClient(): void {
-    try {
-      this.client = new OpenAI({
-        baseURL: this.settings.openaiBaseUrl,
-        apiKey: this.settings.openaiApiKey,
-        dangerouslyAllowBrowser: true // Required for browser usage
+  private registerBuiltinTools(): void {
+    this.tools.set('executeCode', {
+      schema: EXECUTE_CODE_TOOL,
+      handler: async (args: any) => {
+        const result = await this.executeCodeTool(args.code, args.explanation, args.timeout);
+        this.loopDetector.record(args.code, result.success, result.output);
+        if (this.settings.visionEnabled && result.images.length > 0) {
+          this.pendingImages.push(...result.images);
+        }
+        return JSON.stringify({ success: result.success, output: result.output });
+      }
+    });
+    this.tools.set('list_variables', {
+      schema: LIST_VARIABLES_TOOL,
+      handler: async () => ({ variables: await this.kernelManager.inspectNamespace() })
+    });
+    this.tools.set('update_plan', {
+      schema: UPDATE_PLAN_TOOL,
+      handler: async (args: any) => {
+        if (!Array.isArray(args.steps)) {
+          throw new Error('steps must be an array of step titles');
+        }
+        this.plan.update(args.steps.map(String));
+        this.emitPlan();
+        return { success: true, plan: this.plan.toText() };
+      }
+    });
+    this.tools.set('mark_step', {
+      schema: MARK_STEP_TOOL,
+      handler: async (args: any) => {
+        const step = this.plan.mark(Number(args.step), args.status, args.note);
+        this.emitPlan();
+        return { success: true, step };
+      }
+    });
+    if (this.depth < MAX_DELEGATION_DEPTH) {
+      this.tools.set('delegate_task', {
+        schema: DELEGATE_TASK_TOOL,
+        handler: async (args: any) => this.delegateTask(args)
       });
-      console.log('✓ OpenAI client initialized');
+    }
+    this.tools.set(FINAL_ANSWER_TOOL, {
+      schema: getFinalAnswerToolSchema(null),
+      handler: async (args: any) => this.acceptFinalAnswer(args)
+    });
+  }
+
+  /**
+   * Set the result schema for the next run and update the final_answer tool to ask for it
+   */
+  private configureFinalAnswer(resultSchema: any | null): void {
+    this.resultSchema = resultSchema;
+    const tool = this.tools.get(FINAL_ANSWER_TOOL);
+    if (tool) {
+      tool.schema = getFinalAnswerToolSchema(resultSchema);
+    }
+  }
+
+  /**
+   * Handle a final_answer call: keep it if valid, otherwise reply with the problems
+   * so the model can repair the payload
+   */
+  private acceptFinalAnswer(args: any): any {
+    const errors = typeof args.answer === 'string' ? [] : ['$.answer: expected string'];
+    if (this.resultSchema) {
+      errors.push(...validateJsonSchema(args.result, this.resultSchema, '$.result'));
+    }
+
+    if (errors.length > 0) {
+      this.finalAnswerRepairs++;
+      this.log(`⚠ final_answer rejected: ${errors.join('; ')}`, 'warning');
+      return {
+        success: false,
+        error: `final_answer was rejected: ${errors.join('; ')}. Fix these problems and call final_answer again.`
+      };
+    }
+
+    this.finalAnswer = { answer: args.answer, ...(args.result !== undefined && { result: args.result }) };
+    return { success: true };
+  }
+
+  /**
+   * Set the factory used when a child agent asks for a separate kernel.
+   * Without a factory, child agents can only share this agent's kernel.
+   */
+  setKernelFactory(factory: KernelFactory | null): void {
+    this.kernelFactory = factory;
+  }
+
+  /**
+   * Run a subtask in a child agent with its own history and step budget. Its events are
+   * forwarded as `child` events and its token usage is added to this query.
+   */
+  private async delegateTask(args: any): Promise<any> {
+    const task = typeof args.task === 'string' ? args.task.trim() : '';
+    if (!task) {
+      throw new Error('task is required');
+    }
+    const separate = args.kernel === 'separate';
+    if (separate && !this.kernelFactory) {
+      throw new Error('Separate kernels are not available here, use the shared kernel');
+    }
+    const maxSteps = Math.max(1, Math.min(Number(args.max_steps) || DEFAULT_CHILD_STEPS, this.settings.maxSteps));
+
+    const kernel = separate ? await this.kernelFactory!() : this.kernelManager;
+    const child = new AgentManager(this.settings, kernel, this.depth + 1);
+    // Share the LLM clients (including a replay provider), approvals, recording and custom tools
+    child.provider = this.provider;
+    child.fallbackProvider = this.fallbackProvider;
+    child.approvalHandler = this.approvalHandler;
+    child.recorder = this.recorder;
+    child.replayState = this.replayState;
+    child.detectedTextModels = this.detectedTextModels;
+    child.nativeToolModels = this.nativeToolModels;
+    child.uploadedFiles = this.uploadedFiles;
+    for (const [name, tool] of this.tools) {
+      if (!child.tools.has(name) && name !== 'delegate_task') {
+        child.tools.set(name, tool);
+      }
+    }
+
+    const taskId = `task-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    let done: AgentEventOf<'done'> | null = null;
+    const unsubscribe = child.events.on('*', (event) => {
+      if (event.type === 'usage') {
+        this.addStepUsage({ ...event.usage, step: this.currentStep });
+      } else if (event.type === 'done') {
+        done = event;
+      }
+      this.events.emit({ type: 'child', taskId, task, event });
+    });
+
+    this.activeChild = child;
+    try {
+      const context = typeof args.context === 'string' && args.context.trim() ? `\n\nContext from the parent agent:\n${args.context.trim()}` : '';
+      await child.processQueryInReactLoop(
+        `You are a sub-agent working on a task delegated by another agent.\n\nTask: ${task}${context}\n\nWhen done, call final_answer with a concise summary of what you did and the results (including the names of any variables or files you created).`,
+        maxSteps
+      );
+    } finally {
+      unsubscribe();
+      this.activeChild = null;
+      if (separate) {
+        await kernel.shutdown().catch(error => console.error('[Agent] Failed to shut down child kernel:', error));
+      }
+    }
+
+    const result = done as AgentEventOf<'done'> | null; // Assigned in the listener
+    return {
+      success: result?.reason === 'completed',
+      reason: result?.reason,
+      steps: result?.steps ?? 0,
+      summary: result?.content || '(the child agent returned no summary)'
+    };
+  }
+
+  /**
+   * The task checklist kept by the model
+   */
+  getPlan(): PlanStep[] {
+    return this.plan.getSteps();
+  }
+
+  /**
+   * Restore a checklist, e.g. when resuming a saved session
+   */
+  setPlan(steps: PlanStep[]): void {
+    this.plan.setSteps(steps);
+    this.emitPlan();
+  }
+
+  /**
+   * Tell the agent about a file the user uploaded into the kernel filesystem
+   */
+  addUploadedFile(path: string, size: number): void {
+    this.uploadedFiles.set(path, size);
+  }
+
+  /**
+   * Forget a deleted file (or all files under a deleted directory)
+   */
+  removeUploadedFile(path: string): void {
+    for (const uploaded of [...this.uploadedFiles.keys()]) {
+      if (uploaded === path || uploaded.startsWith(`${path}/`)) {
+        this.uploadedFiles.delete(uploaded);
+      }
+    }
+  }
+
+  /**
+   * Forget all uploaded files, e.g. after a kernel restart wiped the filesystem
+   */
+  clearUploadedFiles(): void {
+    this.uploadedFiles.clear();
+  }
+
+  private emitPlan(): void {
+    this.events.emit({ type: 'plan', steps: this.plan.getSteps() });
+  }
+
+  /**
+   * The final answer of the last run, if the model called final_answer
+   */
+  getLastFinalAnswer(): FinalAnswer | null {
+    return this.finalAnswer;
+  }
+
+  private initializeProvider(): void {
+    try {
+      this.provider = createLLMProvider(this.settings);
+      this.fallbackProvider = createFallbackProvider(this.settings);
+      console.log(`✓ LLM provider initialized (${this.provider.type}${this.fallbackProvider ? `, fallback: ${this.settings.fallbackModel}` : ''})`);
     } catch (error) {
-      console.error('Failed to initialize OpenAI client:', error);
+      console.error('Failed to initialize LLM provider:', error);
       throw error;
     }
   }
 
   updateSettings(settings: AgentSettings): void {
-    this.settings = settings;
-    this.initializeClient();
+    this.settings = normalizeSettings(settings);
+    this.initializeProvider();
   }
 
   /**
    * Get the effective system prompt (custom from settings + base prompt)
    */
   private getSystemPrompt(): string {
+    const instructions = this.usesTextProtocol(this.getActiveModel())
+      ? FORMAT_INSTRUCTIONS + getTextProtocolInstructions(this.tools)
+      : FORMAT_INSTRUCTIONS;
+    const plan = this.plan.isEmpty()
+      ? ''
+      : `\n\n**Current Plan** (update with update_plan, record progress with mark_step)\n${this.plan.toText()}\n`;
+    const files = this.uploadedFiles.size === 0
+      ? ''
+      : `\n\n**Uploaded Files** (provided by the user in the kernel filesystem)\n${[...this.uploadedFiles].map(([path, size]) => `- ${path} (${size} bytes)`).join('\n')}\n`;
     if (this.settings.systemPrompt) {
-      return `${this.settings.systemPrompt}\n\n---\n\n${FORMAT_INSTRUCTIONS}`;
+      return `${this.settings.systemPrompt}\n\n---\n\n${instructions}${plan}${files}`;
     }
-    return DEFAULT_SYSTEM_PROMPT + "\n\n" + FORMAT_INSTRUCTIONS;
+    return DEFAULT_SYSTEM_PROMPT + "\n\n" + instructions + plan + files;
+  }
+
+  /**
+   * Model used for the next LLM call (the fallback model once the query switched to it)
+   */
+  private getActiveModel(): string {
+    return this.usingFallback ? this.settings.fallbackModel! : this.settings.openaiModel;
+  }
+
+  /**
+   * Whether tools are described in the system prompt and called from text instead of
+   * function calling: forced in settings, listed for the model, or auto-detected
+   */
+  private usesTextProtocol(model: string): boolean {
+    if (this.settings.toolProtocol === 'text' || matchesModelList(model, this.settings.textToolModels ?? [])) {
+      return true;
+    }
+    return this.settings.toolProtocol !== 'native' && this.detectedTextModels.has(model);
   }
 
   clearHistory(): void {
     this.conversationHistory = [];
+    this.conversationTree.clear();
+    this.resumableStep = null;
+    this.setSessionUsage(emptyUsageTotals());
+    this.setPlan([]);
+  }
+
+  /**
+   * Add a message to the working history and to the head turn of the conversation tree
+   */
+  private appendMessage(message: AgentMessage): void {
+    this.conversationHistory.push(message);
+    this.conversationTree.getHead()?.messages.push(message);
+  }
+
+  /**
+   * Register a tool the model can call. Replaces any existing tool with the same name.
+   * @param name - Tool name (must match ^[a-zA-Z0-9_-]{1,64}$)
+   * @param schema - Tool description and JSON schema for its parameters
+   * @param handler - Called with the parsed arguments, its return value becomes the tool result
+   */
+  registerTool(name: string, schema: ToolSchema, handler: ToolHandler): void {
+    if (!/^[a-zA-Z0-9_-]{1,64}$/.test(name)) {
+      throw new Error(`Invalid tool name: ${name}`);
+    }
+    this.tools.set(name, { schema, handler });
+  }
+
+  /**
+   * Remove a previously registered tool
+   */
+  unregisterTool(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Get the names of all registered tools
+   */
+  getToolNames(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * Build the tools array for chat completion requests
+   */
+  private getTools(): any[] {
+    return Array.from(this.tools.entries()).map(([name, tool]) => ({
+      type: 'function' as const,
+      function: {
+        name,
+        description: tool.schema.description,
+        parameters: tool.schema.parameters && Object.keys(tool.schema.parameters).length > 0
+          ? tool.schema.parameters
+          : { type: 'object', properties: {} }
+      }
+    }));
+  }
+
+  /**
+   * Execute all tool calls from an assistant message and append the tool replies to history
+   */
+  private async handleToolCalls(toolCalls: any[]): Promise<void> {
+    this.pendingImages = [];
+
+    for (const toolCall of toolCalls) {
+      const content = await this.runToolCall(toolCall);
+
+      // Add tool result to conversation history as per OpenAI pattern
+      this.appendMessage({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content
+      } as any);
+    }
+
+    // Tool messages can only carry text, so images go in a follow-up user message
+    if (this.pendingImages.length > 0 && !this.isCancelled()) {
+      await this.attachPendingImages();
+    }
+  }
+
+  /**
+   * Execute tool calls parsed from assistant text and send the results back
+   * as a single observation message
+   */
+  private async handleTextToolCalls(calls: TextToolCall[]): Promise<void> {
+    this.pendingImages = [];
+    const observations: string[] = [];
+
+    for (const [index, call] of calls.entries()) {
+      const toolCall = {
+        id: `text-call-${Date.now()}-${index}`,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      };
+      observations.push(formatObservation(call.name, await this.runToolCall(toolCall)));
+    }
+
+    this.appendMessage({ role: 'user', content: observations.join('\n\n') });
+
+    if (this.pendingImages.length > 0 && !this.isCancelled()) {
+      await this.attachPendingImages();
+    }
+  }
+
+  /**
+   * Run one tool call unless the query was stopped, and report its result
+   */
+  private async runToolCall(toolCall: any): Promise<string> {
+    let content: string;
+
+    if (this.isCancelled()) {
+      // Every tool call needs a reply to keep the history valid
+      content = JSON.stringify({ success: false, cancelled: true, error: 'Cancelled by user before execution' });
+    } else {
+      content = await this.dispatchToolCall(toolCall);
+      if (this.isCancelled()) {
+        content = JSON.stringify({ success: false, cancelled: true, error: 'Cancelled by user during execution', partialResult: content });
+      }
+    }
+
+    this.events.emit({
+      type: 'tool_result',
+      step: this.currentStep,
+      id: toolCall.id,
+      name: toolCall.function?.name || '',
+      success: isSuccessfulToolResult(content),
+      cancelled: this.isCancelled(),
+      content
+    });
+    return content;
+  }
+
+  /**
+   * Parse tool calls from the text of a reply without function calls, for models using
+   * the text protocol. In auto mode, the first such reply switches the model to it, unless
+   * the model has made native tool calls before (then code in a reply is just an example).
+   * Strips any observation the model wrote itself from the message content.
+   */
+  private extractTextToolCalls(message: any): TextToolCall[] {
+    const model = this.getActiveModel();
+    if (message.tool_calls && message.tool_calls.length > 0) {
+      this.nativeToolModels.add(model);
+      return [];
+    }
+    if (!message.content) {
+      return [];
+    }
+
+    const textProtocol = this.usesTextProtocol(model);
+    if (!textProtocol && (this.settings.toolProtocol !== 'auto' || this.nativeToolModels.has(model))) {
+      return [];
+    }
+
+    const parsed = parseTextToolCalls(message.content);
+    if (parsed.calls.length === 0) {
+      return [];
+    }
+
+    message.content = parsed.content;
+    if (!textProtocol) {
+      this.detectedTextModels.add(model);
+      this.log(`↪ ${model} replied with code instead of a tool call, switching it to the text tool protocol`, 'warning');
+    }
+    return parsed.calls;
+  }
+
+  /**
+   * Append images produced by the last tool calls as image content parts,
+   * downscaled to the configured maximum size
+   */
+  private async attachPendingImages(): Promise<void> {
+    const images = this.pendingImages;
+    this.pendingImages = [];
+
+    const maxSize = this.settings.visionMaxImageSize || 512;
+    const parts: AgentContentPart[] = [
+      { type: 'text', text: `Images produced by the code execution above (${images.length}):` }
+    ];
+    for (const image of images) {
+      parts.push({ type: 'image_url', image_url: { url: await downscaleImage(image, maxSize) } });
+    }
+
+    this.appendMessage({ role: 'user', content: parts });
+    this.log(`🖼 Attached ${images.length} image(s) for the model`);
+  }
+
+  /**
+   * Route a tool call to its registered handler and return the tool message content
+   */
+  private async dispatchToolCall(toolCall: any): Promise<string> {
+    const name = toolCall.function?.name || '';
+    const tool = toolCall.type === 'function' ? this.tools.get(name) : undefined;
+
+    if (!tool) {
+      this.log(`⚠ Model called unknown tool: ${name}`, 'warning');
+      return JSON.stringify({
+        success: false,
+        error: `Unknown tool: ${name}. Available tools: ${this.getToolNames().join(', ')}`
+      });
+    }
+
+    try {
+      const rawArguments = toolCall.function.arguments;
+      const args = rawArguments ? JSON.parse(rawArguments) : {};
+      this.events.emit({ type: 'tool_call', step: this.currentStep, id: toolCall.id, name, arguments: args });
+
+      const result = await tool.handler(args);
+
+      let content: string;
+      if (typeof result === 'string') {
+        content = result;
+      } else {
+        try {
+          content = JSON.stringify(result ?? null);
+        } catch {
+          content = JSON.stringify(String(result));
+        }
+      }
+
+      console.log('[Agent] Tool call result:', { name, args, content });
+      return content;
+    } catch (error) {
+      this.log(`Error executing ${name}: ${(error as Error).message}`, 'error');
+      return JSON.stringify({ success: false, error: (error as Error).message });
+    }
   }
 
   async processQuery(userQuery: string): Promise<void> {
-    if (!this.client) {
-      throw new Error('OpenAI client not initialized');
+    if (!this.provider) {
+      throw new Error('LLM provider not initialized');
     }
 
     if (!this.kernelManager.isInitialized()) {
       throw new Error('Kernel not initialized');
     }
 
-    // Add user message to history
-    this.conversationHistory.push({
+    // Start a new turn below the head and add the user message to it
+    this.conversationTree.addTurn(userQuery);
+    this.appendMessage({
       role: 'user',
       content: userQuery
     });
 
+    this.recorder?.recordQuery({ query: userQuery, mode: 'single' });
+    this.abortController = new AbortController();
+    this.usingFallback = false;
+    this.resumableStep = null;
+    this.resetQueryUsage();
+    this.configureFinalAnswer(null);
+    this.finalAnswer = null;
+
+    let reason: AgentDoneReason = 'completed';
+    let content = '';
+
     try {
-      // Prepare messages for chat completion
+      this.events.emit({ type: 'step_start', step: 1, maxSteps: 1 });
+      const message = await this.streamChatCompletion('[Agent] Chat completion messages:');
+      const textCalls = this.extractTextToolCalls(message);
+      this.pushAssistantMessage(message);
+      content = message.content || '';
+
+      // Execute tool calls if any
+      if (message.tool_calls && !this.isCancelled()) {
+        await this.handleToolCalls(message.tool_calls);
+      } else if (textCalls.length > 0 && !this.isCancelled()) {
+        await this.handleTextToolCalls(textCalls);
+      }
+      const finalAnswer = this.getLastFinalAnswer();
+      if (finalAnswer) {
+        content = finalAnswer.answer;
+      }
+
+      if (this.isCancelled()) {
+        reason = 'cancelled';
+      }
+
+    } catch (error) {
+      reason = 'error';
+      this.events.emit({ type: 'error', step: 1, message: (error as Error).message });
+      console.error('Agent processing error:', error);
+      throw error;
+    } finally {
+      this.events.emit({ type: 'done', reason, steps: 1, content, result: this.getLastFinalAnswer()?.result, usage: this.getLastQueryUsage() });
+      this.abortController = null;
+    }
+  }
+
+  /**
+   * Whether a query is currently being processed
+   */
+  isRunning(): boolean {
+    return this.abortController !== null;
+  }
+
+  /**
+   * Stop the running query: abort the in-flight chat completion and interrupt
+   * any code the agent is currently executing in the kernel
+   */
+  async stop(): Promise<void> {
+    if (!this.abortController || this.abortController.signal.aborted) {
+      return;
+    }
+
+    this.abortController.abort();
+    if (this.replayState) {
+      this.replayState.stopped = true;
+    }
+    await this.activeChild?.stop();
+
+    if (this.isExecutingCode) {
+      try {
+        await this.kernelManager.interruptKernel();
+      } catch (error) {
+        console.error('Failed to interrupt kernel:', error);
+      }
+    }
+  }
+
+  private isCancelled(): boolean {
+    return this.abortController?.signal.aborted ?? false;
+  }
+
+  /**
+   * Call the chat completion API with the current history and stream the reply to output.
+   * If the request is aborted, returns whatever content was received so far without tool calls.
+   */
+  private async streamChatCompletion(logLabel: string): Promise<any> {
+    await this.compactHistoryIfNeeded();
+
+    return this.withRetries('Chat completion', async (provider, model) => {
+      // Prepare messages for chat completion (the system prompt depends on the model's tool protocol)
       const messages = [
         { role: 'system' as const, content: this.getSystemPrompt() },
         ...this.conversationHistory
       ];
 
       // Debug: Log full chat messages
-      console.log('[Agent] Chat completion messages:', messages);
-
-      // Call OpenAI with streaming and function calling
-      const response = await this.client.chat.completions.create({
-        model: this.settings.openaiModel,
-        messages: messages as any,
-        tools: [
-          {
-            type: 'function',
-            function: {
-              name: 'executeCode',
-              description: 'Execute Python code in the browser-based Python kernel. Use this to run Python code, perform calculations, create visualizations, or process data.',
-              parameters: {
-                type: 'object',
-                properties: {
-                  code: {
-                    type: 'string',
-                    description: 'The Python code to execute. Can be multiple lines.'
-                  },
-                  explanation: {
-                    type: 'string',
-                    description: 'A brief explanation of what this code does and why you are running it.'
-                  }
-                },
-                required: ['code', 'explanation']
-              }
-            }
-          }
-        ],
-        stream: true,
-        temperature: 0.7
-      });
+      console.log(logLabel, messages);
 
       // Use messageReducer pattern from OpenAI example
       let message: any = { role: 'assistant', content: '' };
-      let isFirstChunk = true;
+      let usage: LLMUsage | null = null;
+
+      const request: LLMChatRequest = {
+        model,
+        messages,
+        tools: this.usesTextProtocol(model) ? undefined : this.getTools(),
+        temperature: 0.7,
+        signal: this.abortController?.signal
+      };
+      const recordedChunks: LLMChunk[] = [];
+      let streamed = false; // Whether deltas of this attempt reached subscribers
+      // Reasoning inlined in <think> tags is split from the streamed content
+      const thinkSplitter = new ThinkTagSplitter();
+      const emitContent = (split: { content: string; reasoning: string }) => {
+        if (split.reasoning) {
+          this.events.emit({ type: 'reasoning_delta', step: this.currentStep, delta: split.reasoning });
+          streamed = true;
+        }
+        if (split.content) {
+          this.events.emit({ type: 'content_delta', step: this.currentStep, delta: split.content });
+          streamed = true;
+        }
+      };
+
+      try {
+        // Call the LLM provider with streaming and function calling
+        const response = provider.streamChat(request);
 
-      // Process streaming response and accumulate complete message
-      for await (const chunk of response) {
-        message = this.messageReducer(message, chunk);
+        // Process streaming response and accumulate complete message
+        for await (const chunk of response) {
+          if (this.recorder) {
+            recordedChunks.push(chunk);
+          }
+          message = this.messageReducer(message, chunk);
+          if (chunk.usage) {
+            usage = chunk.usage;
+          }
 
-        // Stream content to output
-        const delta = chunk.choices[0]?.delta;
-        if (delta?.content) {
-          this.onOutput(delta.content, 'assistant', !isFirstChunk);
-          isFirstChunk = false;
+          // Stream reasoning and content to subscribers
+          const delta = chunk.choices[0]?.delta;
+          const reasoning = getReasoningDelta(delta);
+          if (reasoning) {
+            this.events.emit({ type: 'reasoning_delta', step: this.currentStep, delta: reasoning });
+            streamed = true;
+          }
+          if (delta?.content) {
+            emitContent(thinkSplitter.push(delta.content));
+          }
         }
+        emitContent(thinkSplitter.flush());
+      } catch (error) {
+        if (!this.isCancelled()) {
+          // The partial reply is dropped; a retry streams it again from the start
+          if (streamed) {
+            this.events.emit({ type: 'stream_discarded', step: this.currentStep });
+          }
+          throw error;
+        }
+        // Partially streamed tool calls cannot be executed, keep only the text
+        const { tool_calls: _toolCalls, ...partial } = message;
+        return this.withoutReasoning(partial);
       }
 
-      // Add assistant message to history
-      this.conversationHistory.push({
-        role: 'assistant',
-        content: message.content || '',
-        ...(message.tool_calls && { tool_calls: message.tool_calls })
-      } as any);
+      this.recorder?.recordStream(request, recordedChunks);
+      if (usage) {
+        this.recordUsage(model, usage);
+      }
+      return this.withoutReasoning(message);
+    });
+  }
 
-      // Execute tool calls if any
-      if (message.tool_calls) {
-        for (const toolCall of message.tool_calls) {
-          if (toolCall.type === 'function' && toolCall.function.name === 'executeCode') {
-            try {
-              const args = JSON.parse(toolCall.function.arguments);
-              const result = await this.executeCodeTool(args.code, args.explanation);
-
-              // Add tool result to conversation history as per OpenAI pattern
-              this.conversationHistory.push({
-                role: 'tool',
-                tool_call_id: toolCall.id,
-                content: JSON.stringify({ success: result.success, output: result.output })
-              } as any);
-            } catch (error) {
-              this.onOutput(`Error executing code: ${(error as Error).message}`, 'error');
-
-              // Add error to conversation history
-              this.conversationHistory.push({
-                role: 'tool',
-                tool_call_id: toolCall.id,
-                content: JSON.stringify({ success: false, error: (error as Error).message })
-              } as any);
+  /**
+   * Drop the reasoning from a streamed message so it is never sent back to the model
+   */
+  private withoutReasoning(message: any): any {
+    const { reasoning_content: _reasoningContent, reasoning: _reasoning, ...rest } = message;
+    return { ...rest, content: splitThinkTags(rest.content || '').content };
+  }
+
+  /**
+   * Run an LLM call, retrying transient failures (rate limits, server errors, dropped
+   * streams) with exponential backoff. Once retries are exhausted, switch to the
+   * fallback provider for the rest of the query and retry there.
+   */
+  private async withRetries<T>(label: string, call: (provider: LLMProvider, model: string) => Promise<T>): Promise<T> {
+    const maxRetries = Math.max(0, this.settings.maxRetries ?? 0);
+
+    while (true) {
+      const provider = this.usingFallback ? this.fallbackProvider! : this.provider!;
+      const model = this.getActiveModel();
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await call(provider, model);
+        } catch (error) {
+          if (this.isCancelled() || !isRetryableError(error)) {
+            throw error;
+          }
+          if (attempt >= maxRetries) {
+            if (this.usingFallback || !this.fallbackProvider || this.replayState) {
+              throw error;
             }
+            this.log(`↪ ${label} failed after ${attempt + 1} attempt(s) (${(error as Error).message}), switching to fallback model ${this.settings.fallbackModel}`, 'warning');
+            this.usingFallback = true;
+            break;
           }
+
+          const delayMs = getRetryDelayMs(error, attempt);
+          console.warn(`[Agent] ${label} attempt ${attempt + 1} failed, retrying in ${delayMs}ms:`, error);
+          this.log(`↻ ${label} failed (${(error as Error).message}), retrying in ${(delayMs / 1000).toFixed(1)}s (${attempt + 1}/${maxRetries})`, 'warning');
+
+          // If stopped while waiting, the next attempt sees the aborted signal and returns early
+          await sleep(delayMs, this.abortController?.signal).catch(() => {});
         }
       }
+    }
+  }
 
-    } catch (error) {
-      const errorMsg = `Agent error: ${(error as Error).message}`;
-      this.onOutput(errorMsg, 'error');
-      console.error('Agent processing error:', error);
-      throw error;
+  /**
+   * Add the usage of one LLM call to the query and session totals
+   */
+  private recordUsage(model: string, usage: LLMUsage): void {
+    const cost = computeCost(model, usage, this.settings.modelPrices ?? {});
+    console.log(`[Agent] Step ${this.currentStep} usage (${model}):`, usage, cost !== null ? formatCost(cost) : 'no price');
+    this.addStepUsage({ step: this.currentStep, model, cost, ...usage });
+  }
+
+  /**
+   * Add the usage of one LLM call (made by this agent or a child agent) to the totals
+   */
+  private addStepUsage(stepUsage: StepUsage): void {
+    addUsage(this.queryUsage, stepUsage, stepUsage.cost);
+    addUsage(this.sessionUsage, stepUsage, stepUsage.cost);
+    this.queryUsage.steps.push(stepUsage);
+    this.events.emit({
+      type: 'usage',
+      step: this.currentStep,
+      usage: stepUsage,
+      query: this.getLastQueryUsage(),
+      session: this.getSessionUsage()
+    });
+  }
+
+  private resetQueryUsage(): void {
+    this.queryUsage = { ...emptyUsageTotals(), steps: [] };
+    this.currentStep = 1;
+  }
+
+  /**
+   * Token usage and cost of the last (or running) query, broken down by step
+   */
+  getLastQueryUsage(): QueryUsage {
+    return { ...this.queryUsage, steps: [...this.queryUsage.steps] };
+  }
+
+  /**
+   * Token usage and cost accumulated over the current chat session
+   */
+  getSessionUsage(): UsageTotals {
+    return { ...this.sessionUsage };
+  }
+
+  /**
+   * Restore session totals, e.g. when resuming a saved session
+   */
+  setSessionUsage(totals: UsageTotals): void {
+    this.sessionUsage = { ...totals };
+  }
+
+  /**
+   * Rough token estimate for a list of messages (~4 characters per token)
+   */
+  private estimateTokens(messages: any[]): number {
+    let chars = 0;
+    for (const message of messages) {
+      if (Array.isArray(message.content)) {
+        for (const part of message.content) {
+          chars += part.type === 'text' ? part.text.length : IMAGE_TOKEN_ESTIMATE * 4;
+        }
+      } else {
+        chars += typeof message.content === 'string' ? message.content.length : JSON.stringify(message.content ?? '').length;
+      }
+      if (message.tool_calls) {
+        chars += JSON.stringify(message.tool_calls).length;
+      }
+    }
+    return Math.ceil(chars / 4) + messages.length * 4;
+  }
+
+  /**
+   * Index of the first message of the most recent turns that must be kept verbatim
+   */
+  private findCompactionSplitIndex(): number {
+    let turns = 0;
+    for (let i = this.conversationHistory.length - 1; i >= 0; i--) {
+      const message = this.conversationHistory[i];
+      if (message.role === 'user' && typeof message.content === 'string' && !message.content.startsWith(COMPACTION_MARKER) && !isObservationMessage(message)) {
+        turns++;
+        if (turns === KEEP_RECENT_TURNS) {
+          return i;
+        }
+      }
     }
+    return 0;
+  }
+
+  /**
+   * Shorten tool outputs in history[start, end) to keep only their beginning
+   */
+  private elideToolOutputs(start: number, end: number): number {
+    let elided = 0;
+    for (let i = Math.max(0, start); i < end; i++) {
+      const message: any = this.conversationHistory[i];
+      const isToolOutput = message.role === 'tool' || isObservationMessage(message);
+      if (isToolOutput && typeof message.content === 'string' && message.content.length > ELIDED_TOOL_OUTPUT_LENGTH) {
+        this.conversationHistory[i] = {
+          ...message,
+          content: `${message.content.substring(0, ELIDED_TOOL_OUTPUT_LENGTH)}... (tool output elided)`
+        };
+        elided++;
+      }
+    }
+    return elided;
+  }
+
+  /**
+   * Compact the conversation when it exceeds the configured token budget.
+   * Older turns are summarized by the LLM into a single "session so far" message,
+   * the most recent turns are kept verbatim and old tool outputs are elided.
+   */
+  private async compactHistoryIfNeeded(): Promise<void> {
+    const budget = this.settings.contextTokenBudget;
+    if (!budget || budget <= 0) {
+      return;
+    }
+
+    const systemTokens = this.estimateTokens([{ content: this.getSystemPrompt() }]);
+    const before = systemTokens + this.estimateTokens(this.conversationHistory);
+    if (before <= budget) {
+      return;
+    }
+
+    const splitIndex = this.findCompactionSplitIndex();
+    let summarized = 0;
+
+    if (splitIndex > 0) {
+      const oldMessages = this.conversationHistory.slice(0, splitIndex);
+      try {
+        const summary = await this.summarizeMessages(oldMessages);
+        this.conversationHistory = [
+          { role: 'user', content: `${COMPACTION_MARKER}\n${summary}` },
+          ...this.conversationHistory.slice(splitIndex)
+        ];
+        summarized = oldMessages.length;
+      } catch (error) {
+        if (this.isCancelled()) {
+          return;
+        }
+        console.error('[Agent] Failed to summarize history, eliding tool outputs only:', error);
+      }
+    }
+
+    // Elide remaining old tool outputs if we are still over budget
+    let elided = 0;
+    if (systemTokens + this.estimateTokens(this.conversationHistory) > budget) {
+      elided = this.elideToolOutputs(0, this.conversationHistory.length - KEEP_RECENT_TOOL_OUTPUTS);
+    }
+
+    if (summarized === 0 && elided === 0) {
+      return;
+    }
+
+    const after = systemTokens + this.estimateTokens(this.conversationHistory);
+    const details = [
+      summarized > 0 ? `${summarized} messages summarized` : '',
+      elided > 0 ? `${elided} tool outputs elided` : ''
+    ].filter(Boolean).join(', ');
+
+    this.log(`🗜 Context compacted: ~${before} → ~${after} tokens (${details})`, 'info');
+  }
+
+  /**
+   * Ask the LLM for a compact summary of the given messages
+   */
+  private async summarizeMessages(messages: AgentMessage[]): Promise<string> {
+    const transcript = messages.map((message: any) => {
+      if (message.role === 'tool') {
+        const content = message.content.length > ELIDED_TOOL_OUTPUT_LENGTH * 2
+          ? `${message.content.substring(0, ELIDED_TOOL_OUTPUT_LENGTH * 2)}... (elided)`
+          : message.content;
+        return `TOOL RESULT: ${content}`;
+      }
+      let text = `${message.role.toUpperCase()}: ${getMessageText(message.content)}`;
+      if (message.tool_calls) {
+        for (const toolCall of message.tool_calls) {
+          text += `\nTOOL CALL ${toolCall.function?.name}: ${toolCall.function?.arguments}`;
+        }
+      }
+      return text;
+    }).join('\n\n');
+
+    const response = await this.withRetries('Summary', async (provider, model) => {
+      const request: LLMChatRequest = {
+        model,
+        messages: [
+          { role: 'system', content: COMPACTION_PROMPT },
+          { role: 'user', content: transcript }
+        ],
+        temperature: 0.2,
+        signal: this.abortController?.signal
+      };
+      const completion = await provider.complete(request);
+      this.recorder?.recordCompletion(request, completion);
+      if (completion.usage) {
+        this.recordUsage(model, completion.usage);
+      }
+      return completion;
+    });
+
+    const summary = splitThinkTags(response.message.content || '').content.trim();
+    if (!summary) {
+      throw new Error('Empty summary returned');
+    }
+    return summary;
+  }
+
+  /**
+   * Add an assistant message to history. Empty messages without tool calls
+   * (e.g. a request cancelled before any content arrived) are skipped.
+   */
+  private pushAssistantMessage(message: any): void {
+    if (!message.content && !(message.tool_calls && message.tool_calls.length > 0)) {
+      return;
+    }
+
+    this.appendMessage({
+      role: 'assistant',
+      content: message.content || '',
+      ...(message.tool_calls && { tool_calls: message.tool_calls })
+    } as any);
   }
 
   // Message reducer to accumulate streaming chunks (from OpenAI example)
@@ -288,31 +1388,43 @@ export class AgentManager {
     return reduce(previous, choice.delta);
   }
 
-  private async executeCodeTool(code: string, explanation: string): Promise<{ success: boolean; output: string }> {
-    // Output explanation with proper spacing
-    this.onOutput(''); // Blank line
-    this.onOutput(`💡 ${explanation}`, 'info');
-    this.onOutput(''); // Blank line
-    this.onOutput(`🔧 Tool (executeCode):`, 'execution');
-
-    // Format code block
-    const codeLines = code.split('\n');
-    codeLines.forEach((line, index) => {
-      if (index === 0) {
-        this.onOutput("```python\n-------", 'info');
-        this.onOutput(`${line}`, 'info');
-      } else if (line.trim()) {
-        this.onOutput(`${line}`, 'info');
-      }
-    });
-    this.onOutput('```\n-------'); // Blank line after code
+  private async executeCodeTool(code: string, explanation: string, timeoutSeconds?: number): Promise<{ success: boolean; output: string; images: ExecutionImage[] }> {
+    // Ask the user for approval according to the configured policy
+    const decision = await this.requestApproval(code, explanation);
+    let editNotice = '';
+    if (decision.action === 'reject') {
+      const reason = decision.reason ? ` Reason: ${decision.reason}` : '';
+      this.log(`✗ Code rejected by user${decision.reason ? `: ${decision.reason}` : ''}`, 'error');
+      return {
+        success: false,
+        output: `The user rejected this code and it was NOT executed.${reason} Adapt your approach or ask the user how to proceed.`,
+        images: []
+      };
+    }
+    if (decision.action === 'edit') {
+      code = decision.code;
+      editNotice = `Note: the user edited your code before execution. The executed code was:\n${code}\n\nOutput:\n`;
+      this.log('✎ Code edited by user, executing edited version');
+    }
 
     try {
       // Execute code using kernel
-      const result = await this.kernelManager.executeCode(code);
+      this.isExecutingCode = true;
+      let result: ExecutionResult;
+      try {
+        const requested = Number(timeoutSeconds);
+        const timeout = Number.isFinite(requested) && requested > 0 ? requested : getExecutionTimeout(this.settings.executionTimeout);
+        result = await this.kernelManager.executeCode(code, { timeoutMs: timeout * 1000 });
+      } finally {
+        this.isExecutingCode = false;
+      }
+
+      this.recorder?.recordExecution(code, result);
+      this.checkReplayExecution(code, result);
 
       // Collect and shorten output for tool result
       const outputParts: string[] = [];
+      const images: ExecutionImage[] = [];
 
       for (const evt of result.outputs) {
         if (evt.type === 'stream') {
@@ -322,10 +1434,13 @@ export class AgentManager {
           const data = evt.data?.data;
           if (data) {
             // Handle different MIME types
+            // Images keep a text placeholder, and are attached separately when vision is enabled
             if (data['image/png']) {
               outputParts.push('<image/png: base64 data truncated>');
+              images.push({ mimeType: 'image/png', data: data['image/png'] });
             } else if (data['image/jpeg']) {
               outputParts.push('<image/jpeg: base64 data truncated>');
+              images.push({ mimeType: 'image/jpeg', data: data['image/jpeg'] });
             } else if (data['text/html']) {
               outputParts.push(this.shortenOutput(data['text/html'], 'html'));
             } else if (data['application/json']) {
@@ -348,6 +1463,9 @@ export class AgentManager {
         }
       }
 
+      if (result.timedOut) {
+        outputParts.push(`⏱ ${result.error} Make the code faster (smaller inputs, fewer iterations), split it into steps, or pass a larger \`timeout\` if it is expected to take longer.`);
+      }
       const output = outputParts.join('\n').trim();
 
       // Debug: Log execution result details
@@ -360,20 +1478,55 @@ export class AgentManager {
 
       return {
         success: result.success,
-        output: output || (result.success ? 'Code executed successfully (no output)' : result.error || 'Unknown error')
+        output: editNotice + (output || (result.success ? 'Code executed successfully (no output)' : result.error || 'Unknown error')),
+        images
       };
 
     } catch (error) {
       const errorMsg = `Execution error: ${(error as Error).message}`;
-      this.onOutput(errorMsg, 'error');
+      this.log(errorMsg, 'error');
 
       return {
         success: false,
-        output: errorMsg
+        output: errorMsg,
+        images: []
       };
     }
   }
 
+  /**
+   * Set the handler that asks the user to approve, edit or reject code.
+   * Without a handler, code is always executed.
+   */
+  setApprovalHandler(handler: ApprovalHandler | null): void {
+    this.approvalHandler = handler;
+  }
+
+  /**
+   * Ask for approval when the policy requires it. Stopping the agent while
+   * waiting counts as a rejection.
+   */
+  private async requestApproval(code: string, explanation: string): Promise<ApprovalDecision> {
+    const reasons = getApprovalReasons(this.settings.approvalPolicy, code);
+    if (reasons === null || !this.approvalHandler) {
+      return { action: 'approve' };
+    }
+
+    const signal = this.abortController?.signal;
+    if (signal?.aborted) {
+      return { action: 'reject', reason: 'Cancelled by user' };
+    }
+
+    const cancelled = new Promise<ApprovalDecision>(resolve => {
+      signal?.addEventListener('abort', () => resolve({ action: 'reject', reason: 'Cancelled by user' }), { once: true });
+    });
+
+    return Promise.race([
+      this.approvalHandler({ code, explanation, reasons, signal }),
+      cancelled
+    ]);
+  }
+
   // Strip ANSI escape codes from text
   private stripAnsiCodes(text: string): string {
     // Remove ANSI escape sequences (colors, formatting, etc.)
@@ -408,166 +1561,325 @@ export class AgentManager {
     return text;
   }
 
+  /**
+   * Start recording LLM interactions and kernel executions into a cassette
+   */
+  startRecording(): void {
+    this.recorder = new CassetteRecorder(this.settings.openaiProvider, this.settings.openaiModel, this.getSystemPrompt());
+    this.log('⏺ Recording session');
+  }
+
+  /**
+   * Stop recording and return the recorded cassette
+   */
+  stopRecording(): Cassette | null {
+    if (!this.recorder) {
+      return null;
+    }
+
+    const cassette = this.recorder.getCassette();
+    this.recorder = null;
+    this.log(`⏹ Recording stopped (${cassette.interactions.length} LLM responses, ${cassette.executions.length} executions)`);
+    return cassette;
+  }
+
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /**
+   * Replay a cassette: recorded LLM responses are fed back while the code is
+   * re-executed against a fresh kernel. Returns the executions whose outputs
+   * differ from the recording.
+   */
+  async replayCassette(cassette: Cassette): Promise<ReplayDivergence[]> {
+    if (this.isRunning() || this.replayState) {
+      throw new Error('Cannot replay while a query is running');
+    }
+
+    const originalProvider = this.provider;
+    this.provider = new ReplayProvider(cassette);
+    this.replayState = { expected: cassette.executions, index: 0, divergences: [], stopped: false };
+
+    this.log(`▶ Replaying cassette from ${cassette.createdAt} (${cassette.queries.length} queries, model: ${cassette.model})`);
+
+    try {
+      // Re-execute against a fresh kernel and empty history
+      await this.kernelManager.restartKernel();
+      this.clearHistory();
+
+      for (const recorded of cassette.queries) {
+        if (this.replayState.stopped) break;
+
+        this.log(`----------------------------------\n🤔 User (replay): \n${recorded.query}`);
+
+        if (recorded.mode === 'single') {
+          await this.processQuery(recorded.query);
+        } else {
+          await this.processQueryInReactLoop(recorded.query, recorded.maxSteps);
+        }
+      }
+
+      const state = this.replayState;
+      if (!state.stopped && state.index !== state.expected.length) {
+        state.divergences.push({
+          executionIndex: state.index,
+          code: '',
+          differences: [`expected ${state.expected.length} executions but replay ran ${state.index}`]
+        });
+      }
+
+      if (state.stopped) {
+        this.log('⏹ Replay stopped by user');
+      } else if (state.divergences.length === 0) {
+        this.log(`✓ Replay finished: all ${state.index} executions match the recording`);
+      } else {
+        this.log(`⚠ Replay finished with ${state.divergences.length} divergence(s) from the recording`, 'error');
+      }
+
+      return state.divergences;
+    } finally {
+      this.provider = originalProvider;
+      this.replayState = null;
+    }
+  }
+
+  /**
+   * During replay, compare an execution result with the recorded one and flag differences
+   */
+  private checkReplayExecution(code: string, result: ExecutionResult): void {
+    if (!this.replayState) return;
+
+    const index = this.replayState.index++;
+    const expected = this.replayState.expected[index];
+    const differences = !expected
+      ? ['execution was not in the recording']
+      : expected.code !== code
+        ? ['executed code differs from the recording']
+        : compareExecutionResults(expected.result, result);
+
+    if (differences.length > 0) {
+      this.replayState.divergences.push({ executionIndex: index, code, differences });
+      this.log(`⚠ Replay divergence at execution #${index + 1}:\n${differences.map(difference => `  ${difference}`).join('\n')}`, 'error');
+    }
+  }
+
   getConversationHistory(): AgentMessage[] {
     return [...this.conversationHistory];
   }
 
+  getConversationTree(): ConversationTree {
+    return this.conversationTree;
+  }
+
+  /**
+   * Replace the conversation tree, e.g. when resuming a saved session
+   */
+  loadConversationTree(data: ConversationTreeData): void {
+    this.assertIdle();
+    this.conversationTree = ConversationTree.fromData(data);
+    this.syncHistoryWithTree();
+  }
+
+  /**
+   * Rewind to just before the given turn so the next query starts a new branch
+   * next to it. The original branch is kept in the tree.
+   */
+  rewindBeforeTurn(turnId: string): void {
+    this.assertIdle();
+    this.conversationTree.rewindBefore(turnId);
+    this.syncHistoryWithTree();
+  }
+
+  /**
+   * Make the branch containing the given turn the active conversation
+   */
+  switchBranch(turnId: string): void {
+    this.assertIdle();
+    this.conversationTree.switchTo(turnId);
+    this.syncHistoryWithTree();
+  }
+
+  private assertIdle(): void {
+    if (this.isRunning()) {
+      throw new Error('Cannot change the conversation while a query is running');
+    }
+  }
+
+  private syncHistoryWithTree(): void {
+    this.conversationHistory = this.conversationTree.getMessages();
+    this.resumableStep = null;
+  }
+
   /**
    * Process query with React loop for extended reasoning and error recovery
    * Allows multiple rounds of tool execution and reasoning
    */
-  async processQueryInReactLoop(userQuery: string, maxSteps: number = 10): Promise<void> {
-    if (!this.client) {
-      throw new Error('OpenAI client not initialized');
+  async processQueryInReactLoop(userQuery: string, maxSteps: number = 10, options: RunOptions = {}): Promise<void> {
+    if (!this.provider) {
+      throw new Error('LLM provider not initialized');
     }
 
     if (!this.kernelManager.isInitialized()) {
       throw new Error('Kernel not initialized');
     }
 
-    // Add user message to history
-    this.conversationHistory.push({
+    // Start a new turn below the head and add the user message to it
+    this.conversationTree.addTurn(userQuery);
+    this.appendMessage({
       role: 'user',
       content: userQuery
     });
 
-    let loopCount = 0;
+    // A child agent's query is part of its parent's delegate_task call, not a query of its own
+    if (this.depth === 0) {
+      this.recorder?.recordQuery({ query: userQuery, mode: 'react', maxSteps });
+    }
+    this.configureFinalAnswer(options.resultSchema ?? null);
+
+    // Usage, repair attempts and loop detection span the whole query, including resumed steps
+    this.resetQueryUsage();
+    this.finalAnswerRepairs = 0;
+    this.loopDetector.reset();
+    await this.runReactLoop(1, maxSteps);
+  }
+
+  /**
+   * Whether the last React loop failed with an API error and can be resumed
+   */
+  canResume(): boolean {
+    return this.resumableStep !== null;
+  }
+
+  /**
+   * Resume a React loop that failed with an API error, continuing from the
+   * failed step with the history accumulated so far
+   */
+  async resumeReactLoop(): Promise<void> {
+    if (!this.provider) {
+      throw new Error('LLM provider not initialized');
+    }
+
+    if (!this.resumableStep) {
+      throw new Error('Nothing to resume');
+    }
+
+    const { step, maxSteps } = this.resumableStep;
+    this.log(`↻ Resuming from step ${step}`);
+    await this.runReactLoop(step, maxSteps);
+  }
+
+  private async runReactLoop(firstStep: number, maxSteps: number): Promise<void> {
+    this.abortController = new AbortController();
+    this.usingFallback = false;
+    this.resumableStep = null;
+    let loopCount = firstStep - 1;
+    let reason: AgentDoneReason = 'max_steps';
+    let content = '';
+    this.finalAnswer = null;
 
     try {
       // React loop: keep calling LLM until it stops requesting tools or max steps reached
-      while (loopCount < maxSteps) {
+      while (loopCount < maxSteps && !this.isCancelled()) {
         loopCount++;
+        this.currentStep = loopCount;
+        this.events.emit({ type: 'step_start', step: loopCount, maxSteps });
 
-        // Prepare messages for chat completion
-        const messages = [
-          { role: 'system' as const, content: this.getSystemPrompt() },
-          ...this.conversationHistory
-        ];
-
-        // Debug: Log full chat messages
-        console.log(`[Agent] React Loop Step ${loopCount}/${maxSteps} - Chat completion messages:`, messages);
-
-        // Call OpenAI with streaming and function calling
-        const response = await this.client.chat.completions.create({
-          model: this.settings.openaiModel,
-          messages: messages as any,
-          tools: [
-            {
-              type: 'function',
-              function: {
-                name: 'executeCode',
-                description: 'Execute Python code in the browser-based Python kernel. Use this to run Python code, perform calculations, create visualizations, or process data.',
-                parameters: {
-                  type: 'object',
-                  properties: {
-                    code: {
-                      type: 'string',
-                      description: 'The Python code to execute. Can be multiple lines.'
-                    },
-                    explanation: {
-                      type: 'string',
-                      description: 'A brief explanation of what this code does and why you are running it.'
-                    }
-                  },
-                  required: ['code', 'explanation']
-                }
-              }
-            }
-          ],
-          stream: true,
-          temperature: 0.7
-        });
+        const message = await this.streamChatCompletion(
+          `[Agent] React Loop Step ${loopCount}/${maxSteps} - Chat completion messages:`
+        );
 
-        // Use messageReducer pattern from OpenAI example
-        let message: any = { role: 'assistant', content: '' };
-        let isFirstChunk = true;
+        // Add assistant message to history
+        const textCalls = this.extractTextToolCalls(message);
+        this.pushAssistantMessage(message);
+        content = message.content || '';
 
-        // Process streaming response and accumulate complete message
-        for await (const chunk of response) {
-          message = this.messageReducer(message, chunk);
+        if (this.isCancelled()) {
+          break;
+        }
 
-          // Stream content to output
-          const delta = chunk.choices[0]?.delta;
-          if (delta?.content) {
-            this.onOutput(delta.content, 'assistant', !isFirstChunk);
-            isFirstChunk = false;
-          }
+        // Check if there are tool calls to execute (native, or parsed from text)
+        if (message.tool_calls && message.tool_calls.length > 0) {
+          await this.handleToolCalls(message.tool_calls);
+        } else if (textCalls.length > 0) {
+          await this.handleTextToolCalls(textCalls);
+        } else if (this.resultSchema && this.tools.has(FINAL_ANSWER_TOOL) && this.finalAnswerRepairs < MAX_FINAL_ANSWER_REPAIRS) {
+          // A structured result was requested, so a plain reply is not enough
+          this.finalAnswerRepairs++;
+          this.log('↻ Asking the model to call final_answer with a result matching the schema', 'warning');
+          this.appendMessage({
+            role: 'user',
+            content: `Call the ${FINAL_ANSWER_TOOL} tool to finish: pass your answer and a \`result\` that matches the required JSON schema.`
+          });
+        } else {
+          // No tool calls - final response received, exit loop
+          reason = 'completed';
+          break;
         }
 
-        // Add assistant message to history
-        this.conversationHistory.push({
-          role: 'assistant',
-          content: message.content || '',
-          ...(message.tool_calls && { tool_calls: message.tool_calls })
-        } as any);
+        if (this.isCancelled()) {
+          break;
+        }
 
-        // Check if there are tool calls to execute
-        if (message.tool_calls && message.tool_calls.length > 0) {
-          let hasExecutedTools = false;
-
-          // Execute tool calls
-          for (const toolCall of message.tool_calls) {
-            if (toolCall.type === 'function' && toolCall.function.name === 'executeCode') {
-              hasExecutedTools = true;
-
-              try {
-                const args = JSON.parse(toolCall.function.arguments);
-                const result = await this.executeCodeTool(args.code, args.explanation);
-
-                // Add tool result to conversation history
-                this.conversationHistory.push({
-                  role: 'tool',
-                  tool_call_id: toolCall.id,
-                  content: JSON.stringify({ success: result.success, output: result.output })
-                } as any);
-
-              } catch (error) {
-                this.onOutput(`Error executing code: ${(error as Error).message}`, 'error');
-
-                // Add error to conversation history for recovery
-                this.conversationHistory.push({
-                  role: 'tool',
-                  tool_call_id: toolCall.id,
-                  content: JSON.stringify({ success: false, error: (error as Error).message })
-                } as any);
-              }
-            }
-          }
+        // The model finished through final_answer
+        const finalAnswer = this.getLastFinalAnswer();
+        if (finalAnswer) {
+          content = finalAnswer.answer;
+          reason = 'completed';
+          break;
+        }
+        if (this.finalAnswerRepairs > MAX_FINAL_ANSWER_REPAIRS) {
+          this.log(`⚠ No valid final_answer after ${MAX_FINAL_ANSWER_REPAIRS} repair attempts, ending without a structured result`, 'warning');
+          reason = 'completed';
+          break;
+        }
 
-          // If we executed tools, continue the loop for next reasoning step
-          if (hasExecutedTools) {
-            // Show reasoning loop indicator after completing a step
-            this.onOutput(''); // Blank line
-            this.onOutput(`----Reasoning Step ${loopCount}----`, 'info');
-
-            // Add reminder if approaching max steps
-            if (loopCount >= maxSteps - 2) {
-              this.conversationHistory.push({
-                role: 'user',
-                content: `⚠ You are approaching the maximum number of reasoning steps (${maxSteps}). Please provide a final response summarizing your work.`
-              });
-            }
-            continue; // Continue to next iteration
-          }
+        // Break out of repeated failures: guide the model first, stop if it keeps going
+        const loop = this.loopDetector.evaluate();
+        if (loop?.action === 'stop') {
+          this.log(`⏹ ${loop.message}`, 'warning');
+          content = loop.message;
+          reason = 'loop_detected';
+          break;
+        }
+        if (loop) {
+          this.log(`🔁 Loop detected (${loop.kind === 'repeated_error' ? 'repeated error' : 'near-duplicate code'} x${loop.count}), sending recovery guidance`, 'warning');
+          this.appendMessage({ role: 'user', content: loop.message });
         }
 
-        // No tool calls - final response received, exit loop
-        this.onOutput(''); // Blank line
-        this.onOutput('----------------------------------', 'info');
-        break;
+        // Add reminder if approaching max steps
+        if (loopCount >= maxSteps - 2) {
+          this.appendMessage({
+            role: 'user',
+            content: this.tools.has(FINAL_ANSWER_TOOL)
+              ? `⚠ You are approaching the maximum number of reasoning steps (${maxSteps}). Call ${FINAL_ANSWER_TOOL} now with a summary of your work.`
+              : `⚠ You are approaching the maximum number of reasoning steps (${maxSteps}). Please provide a final response summarizing your work.`
+          });
+        }
       }
 
-      // Check if we hit max steps
-      if (loopCount >= maxSteps) {
-        this.onOutput(''); // Blank line
-        this.onOutput(`⚠ Reached maximum reasoning steps (${maxSteps})`, 'info');
+      if (this.isCancelled()) {
+        reason = 'cancelled';
       }
 
     } catch (error) {
-      const errorMsg = `Agent error: ${(error as Error).message}`;
-      this.onOutput(errorMsg, 'error');
+      reason = 'error';
+      this.events.emit({ type: 'error', step: loopCount, message: (error as Error).message });
       console.error('Agent processing error:', error);
+
+      // History up to the failed step is intact, so the loop can pick up from there
+      if (!this.replayState) {
+        this.resumableStep = { step: loopCount, maxSteps };
+        this.log(`Send /resume to continue from step ${loopCount}`);
+      }
       throw error;
+    } finally {
+      this.events.emit({ type: 'done', reason, steps: loopCount, content, result: this.getLastFinalAnswer()?.result, usage: this.getLastQueryUsage() });
+      this.abortController = null;
     }
   }
+
+  private log(message: string, level: 'info' | 'warning' | 'error' = 'info'): void {
+    this.events.emit({ type: 'log', level, message });
+  }
 }
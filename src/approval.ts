@@ -0,0 +1,58 @@
+// Human Approval Gate for Agent-Generated Code
+
+export type ApprovalPolicy = 'always-ask' | 'never-ask' | 'ask-when-risky';
+
+export interface ApprovalRequest {
+  code: string;
+  explanation: string;
+  reasons: string[]; // Why the code is considered risky (empty when the policy always asks)
+  signal?: AbortSignal; // Aborted when the agent is stopped while waiting
+}
+
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'edit'; code: string }
+  | { action: 'reject'; reason?: string };
+
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+// Patterns that make code "risky" for the ask-when-risky policy
+const RISKY_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /\bmicropip\s*\.\s*install\b|\bpip\s+install\b/, reason: 'installs packages' },
+  { pattern: /\bos\s*\.\s*(remove|unlink|rmdir|removedirs)\b|\bshutil\s*\.\s*rmtree\b|\.unlink\s*\(|\.rmdir\s*\(/, reason: 'deletes files' },
+  { pattern: /\bopen\s*\([^)]*['"][wa]\+?b?['"]/, reason: 'writes files' },
+  { pattern: /\b(requests|httpx|urllib|aiohttp|socket|pyodide_http)\b|\bpyfetch\b|\bpyodide\s*\.\s*http\b/, reason: 'makes network calls' },
+  { pattern: /^\s*(import\s+js\b|from\s+js\s+import\b)|\bjs\s*\.\s*\w+/m, reason: 'accesses the browser through the js module' },
+  { pattern: /\b(eval|exec)\s*\(|\b__import__\s*\(/, reason: 'evaluates dynamic code' },
+  { pattern: /\bsubprocess\b|\bos\s*\.\s*system\b/, reason: 'runs system commands' }
+];
+
+/**
+ * List the reasons a piece of code is considered risky (empty when it looks safe)
+ */
+export function detectRiskyCode(code: string): string[] {
+  const reasons: string[] = [];
+  for (const { pattern, reason } of RISKY_PATTERNS) {
+    if (pattern.test(code) && !reasons.includes(reason)) {
+      reasons.push(reason);
+    }
+  }
+  return reasons;
+}
+
+/**
+ * Decide whether code needs human approval under the given policy.
+ * Returns null when no approval is needed, or the list of reasons otherwise.
+ */
+export function getApprovalReasons(policy: ApprovalPolicy, code: string): string[] | null {
+  switch (policy) {
+    case 'always-ask':
+      return detectRiskyCode(code);
+    case 'ask-when-risky': {
+      const reasons = detectRiskyCode(code);
+      return reasons.length > 0 ? reasons : null;
+    }
+    default:
+      return null;
+  }
+}
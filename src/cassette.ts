@@ -0,0 +1,204 @@
+// Session Cassettes - Record and Replay Agent Runs
+// A cassette captures every LLM request with its streamed response and every kernel
+// ExecutionResult, so a run can be replayed later against a fresh kernel.
+import type { LLMChatRequest, LLMChunk, LLMCompletion, LLMProvider, LLMProviderType } from './llm-provider';
+import type { ExecutionResult } from './kernel';
+
+export const CASSETTE_VERSION = 1;
+
+export interface CassetteQuery {
+  query: string;
+  mode: 'single' | 'react';
+  maxSteps?: number;
+}
+
+export interface CassetteLLMInteraction {
+  kind: 'stream' | 'complete';
+  request: {
+    model: string;
+    messages: any[];
+    tools?: any[];
+    temperature?: number;
+  };
+  chunks?: LLMChunk[]; // For streamed requests
+  completion?: LLMCompletion; // For non-streaming requests
+}
+
+export interface CassetteExecution {
+  code: string;
+  result: ExecutionResult;
+}
+
+export interface Cassette {
+  version: number;
+  createdAt: string;
+  provider: LLMProviderType;
+  model: string;
+  systemPrompt?: string;
+  queries: CassetteQuery[];
+  interactions: CassetteLLMInteraction[];
+  executions: CassetteExecution[];
+}
+
+export interface ReplayDivergence {
+  executionIndex: number;
+  code: string;
+  differences: string[];
+}
+
+/**
+ * Collects LLM interactions and kernel executions while recording is active
+ */
+export class CassetteRecorder {
+  private cassette: Cassette;
+
+  constructor(provider: LLMProviderType, model: string, systemPrompt?: string) {
+    this.cassette = {
+      version: CASSETTE_VERSION,
+      createdAt: new Date().toISOString(),
+      provider,
+      model,
+      systemPrompt,
+      queries: [],
+      interactions: [],
+      executions: []
+    };
+  }
+
+  recordQuery(query: CassetteQuery): void {
+    this.cassette.queries.push(query);
+  }
+
+  recordStream(request: LLMChatRequest, chunks: LLMChunk[]): void {
+    this.cassette.interactions.push({ kind: 'stream', request: this.toRecordedRequest(request), chunks });
+  }
+
+  recordCompletion(request: LLMChatRequest, completion: LLMCompletion): void {
+    this.cassette.interactions.push({ kind: 'complete', request: this.toRecordedRequest(request), completion });
+  }
+
+  recordExecution(code: string, result: ExecutionResult): void {
+    this.cassette.executions.push({ code, result });
+  }
+
+  getCassette(): Cassette {
+    return this.cassette;
+  }
+
+  private toRecordedRequest(request: LLMChatRequest): CassetteLLMInteraction['request'] {
+    // Drop the abort signal, deep copy messages so later history edits do not leak in
+    return JSON.parse(JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      tools: request.tools,
+      temperature: request.temperature
+    }));
+  }
+}
+
+/**
+ * Provider that feeds recorded LLM responses back in order
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly type: LLMProviderType;
+  private streams: CassetteLLMInteraction[];
+  private completions: CassetteLLMInteraction[];
+
+  constructor(cassette: Cassette) {
+    this.type = cassette.provider;
+    this.streams = cassette.interactions.filter(interaction => interaction.kind === 'stream');
+    this.completions = cassette.interactions.filter(interaction => interaction.kind === 'complete');
+  }
+
+  async *streamChat(request: LLMChatRequest): AsyncIterable<LLMChunk> {
+    const interaction = this.streams.shift();
+    if (!interaction || !interaction.chunks) {
+      throw new Error('Cassette has no more recorded LLM responses');
+    }
+
+    for (const chunk of interaction.chunks) {
+      if (request.signal?.aborted) {
+        throw new Error('Request aborted');
+      }
+      yield chunk;
+    }
+  }
+
+  async complete(_request: LLMChatRequest): Promise<LLMCompletion> {
+    const interaction = this.completions.shift();
+    if (!interaction || !interaction.completion) {
+      throw new Error('Cassette has no more recorded LLM completions');
+    }
+    return interaction.completion;
+  }
+}
+
+/**
+ * Summarize an execution result into comparable lines.
+ * Images are compared by MIME type only since rendering is not byte-for-byte stable.
+ */
+function summarizeExecution(result: ExecutionResult): string[] {
+  const lines: string[] = [`success: ${result.success}`];
+
+  for (const event of result.outputs) {
+    if (event.type === 'stream') {
+      lines.push(`${event.data?.name || 'stream'}: ${(event.data?.text || '').trim()}`);
+    } else if (event.type === 'execute_result' || event.type === 'display_data') {
+      const data = event.data?.data || {};
+      const imageTypes = Object.keys(data).filter(mime => mime.startsWith('image/'));
+      if (imageTypes.length > 0) {
+        lines.push(`${event.type}: <${imageTypes.join(', ')}>`);
+      } else if (data['text/plain']) {
+        lines.push(`${event.type}: ${String(data['text/plain']).trim()}`);
+      }
+    } else if (event.type === 'error' || event.type === 'execute_error') {
+      lines.push(`error: ${event.data?.ename}: ${event.data?.evalue}`);
+    }
+  }
+
+  return lines.filter(line => !line.endsWith(': '));
+}
+
+/**
+ * Compare a recorded execution result with a replayed one and list the differences
+ */
+export function compareExecutionResults(expected: ExecutionResult, actual: ExecutionResult): string[] {
+  const expectedLines = summarizeExecution(expected);
+  const actualLines = summarizeExecution(actual);
+  const differences: string[] = [];
+
+  const length = Math.max(expectedLines.length, actualLines.length);
+  for (let i = 0; i < length; i++) {
+    if (expectedLines[i] !== actualLines[i]) {
+      differences.push(`expected "${expectedLines[i] ?? '(nothing)'}" but got "${actualLines[i] ?? '(nothing)'}"`);
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Parse and validate a cassette file
+ */
+export function parseCassette(text: string): Cassette {
+  const cassette = JSON.parse(text);
+  if (!cassette || cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions) || !Array.isArray(cassette.executions)) {
+    throw new Error(`Invalid cassette file (expected version ${CASSETTE_VERSION})`);
+  }
+  return cassette as Cassette;
+}
+
+/**
+ * Save a cassette as a JSON file download
+ */
+export function downloadCassette(cassette: Cassette): void {
+  const blob = new Blob([JSON.stringify(cassette, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `agent-session-${cassette.createdAt.replace(/[:.]/g, '-')}.cassette.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,144 @@
+// Conversation Tree - Branching Chat History
+// Each turn starts with a user prompt and holds every message the agent added while
+// answering it. Editing an earlier prompt adds a sibling turn, so the original branch
+// is kept and can be switched back to. The active branch is the path from the root
+// to the head turn.
+import type { AgentMessage } from './agent';
+
+export interface TranscriptEntry {
+  content: string;
+  type: string;
+  turnId?: string; // Set on prompt entries so the terminal can offer edit and branch controls
+}
+
+export interface ConversationTurn {
+  id: string;
+  parentId: string | null;
+  prompt: string;
+  messages: AgentMessage[]; // The user message and everything added while answering it
+  transcript: TranscriptEntry[]; // Terminal output of the turn
+  createdAt: string;
+  activeChildId?: string; // Child followed when switching back to this branch
+}
+
+export interface ConversationTreeData {
+  turns: ConversationTurn[];
+  headId: string | null;
+}
+
+export class ConversationTree {
+  private turns: Map<string, ConversationTurn> = new Map();
+  private headId: string | null = null;
+
+  static fromData(data: ConversationTreeData): ConversationTree {
+    const tree = new ConversationTree();
+    for (const turn of data.turns) {
+      tree.turns.set(turn.id, turn);
+    }
+    tree.headId = data.headId && tree.turns.has(data.headId) ? data.headId : null;
+    return tree;
+  }
+
+  toData(): ConversationTreeData {
+    return { turns: [...this.turns.values()], headId: this.headId };
+  }
+
+  clear(): void {
+    this.turns.clear();
+    this.headId = null;
+  }
+
+  getTurn(id: string): ConversationTurn | null {
+    return this.turns.get(id) ?? null;
+  }
+
+  getHead(): ConversationTurn | null {
+    return this.headId ? this.turns.get(this.headId) ?? null : null;
+  }
+
+  /**
+   * Add a turn below the head (or below the given parent) and make it the new head
+   */
+  addTurn(prompt: string, parentId: string | null = this.headId): ConversationTurn {
+    const turn: ConversationTurn = {
+      id: `turn-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      parentId,
+      prompt,
+      messages: [],
+      transcript: [],
+      createdAt: new Date().toISOString()
+    };
+    this.turns.set(turn.id, turn);
+    this.setHead(turn.id);
+    return turn;
+  }
+
+  /**
+   * Turns on the active branch, from the root to the head
+   */
+  getPath(): ConversationTurn[] {
+    const path: ConversationTurn[] = [];
+    let turn = this.getHead();
+    while (turn) {
+      path.unshift(turn);
+      turn = turn.parentId ? this.turns.get(turn.parentId) ?? null : null;
+    }
+    return path;
+  }
+
+  /**
+   * Messages of the active branch in order
+   */
+  getMessages(): AgentMessage[] {
+    return this.getPath().flatMap(turn => turn.messages);
+  }
+
+  /**
+   * Turns sharing the same parent as the given turn (including itself), oldest first
+   */
+  getSiblings(id: string): ConversationTurn[] {
+    const turn = this.turns.get(id);
+    if (!turn) return [];
+    return [...this.turns.values()]
+      .filter(other => other.parentId === turn.parentId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Move the head to the parent of the given turn, so the next turn becomes its sibling
+   */
+  rewindBefore(id: string): void {
+    const turn = this.turns.get(id);
+    if (!turn) {
+      throw new Error(`Turn not found: ${id}`);
+    }
+    this.headId = turn.parentId;
+  }
+
+  /**
+   * Make the branch containing the given turn active, following the most recently
+   * active children down to a leaf
+   */
+  switchTo(id: string): void {
+    let turn = this.turns.get(id);
+    if (!turn) {
+      throw new Error(`Turn not found: ${id}`);
+    }
+    while (turn.activeChildId && this.turns.has(turn.activeChildId)) {
+      turn = this.turns.get(turn.activeChildId)!;
+    }
+    this.setHead(turn.id);
+  }
+
+  private setHead(id: string): void {
+    this.headId = id;
+    // Remember the path so switching back to an ancestor's branch returns here
+    let turn = this.turns.get(id);
+    while (turn && turn.parentId) {
+      const parent = this.turns.get(turn.parentId);
+      if (!parent) break;
+      parent.activeChildId = turn.id;
+      turn = parent;
+    }
+  }
+}
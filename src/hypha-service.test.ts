@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AgentManager, ToolHandler, ToolSchema } from './agent';
+import type { KernelManager } from './kernel';
+import type { AgentSettings } from './settings';
+
+// settings.ts creates its manager on import, which reads localStorage
+vi.hoisted(() => {
+  const storage = new Map<string, string>();
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  };
+});
+
+import { HyphaService } from './hypha-service';
+
+const SERVICE_URL = 'https://hypha.aicell.io/ws-user/services/client:tools';
+
+function createAgentManager(builtInTools: string[] = ['executeCode']) {
+  const tools = new Map<string, { schema: ToolSchema; handler: ToolHandler }>(
+    builtInTools.map(name => [name, { schema: { description: 'Built-in' }, handler: async () => ({}) }])
+  );
+  const agentManager = {
+    tools,
+    settings: null as AgentSettings | null,
+    registerTool: (name: string, schema: ToolSchema, handler: ToolHandler) => tools.set(name, { schema, handler }),
+    unregisterTool: (name: string) => tools.delete(name),
+    getToolNames: () => Array.from(tools.keys()),
+    updateSettings: (settings: AgentSettings) => { agentManager.settings = settings; }
+  };
+  return agentManager;
+}
+
+async function installService(functions: string[], builtInTools?: string[]) {
+  const agentManager = createAgentManager(builtInTools);
+  const proxy: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const name of functions) {
+    proxy[name] = vi.fn(async () => ({ ok: true }));
+  }
+
+  const service = new HyphaService(
+    { executionTimeout: 120 } as AgentSettings,
+    {} as KernelManager,
+    agentManager as unknown as AgentManager,
+    () => {}
+  );
+  (service as any).server = { getService: vi.fn(async () => proxy) };
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+    name: 'Tools',
+    description: 'Test service',
+    service_schema: Object.fromEntries(functions.map(name => [name, {
+      type: 'function',
+      function: { name, description: `Run ${name}`, parameters: { type: 'object', properties: {} } }
+    }]))
+  }))));
+
+  await service.installService(SERVICE_URL);
+  return { agentManager, proxy };
+}
+
+describe('HyphaService service tools', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('registers service functions as tools', async () => {
+    const { agentManager } = await installService(['analyze']);
+    expect(agentManager.getToolNames()).toEqual(['executeCode', 'tools__analyze']);
+  });
+
+  it('calls the service function with keyword arguments', async () => {
+    const { agentManager, proxy } = await installService(['analyze']);
+    const result = await agentManager.tools.get('tools__analyze')!.handler({ image: 'cells.png', threshold: 0.5 });
+
+    expect(proxy.analyze).toHaveBeenCalledTimes(1);
+    expect(proxy.analyze.mock.calls[0]).toEqual([{ image: 'cells.png', threshold: 0.5, _rkwargs: true }]);
+    expect(result).toEqual({ success: true, result: { ok: true } });
+  });
+
+  it('passes an empty keyword dict when the model sends no arguments', async () => {
+    const { agentManager, proxy } = await installService(['ping']);
+    await agentManager.tools.get('tools__ping')!.handler(undefined);
+
+    expect(proxy.ping.mock.calls[0]).toEqual([{ _rkwargs: true }]);
+  });
+
+  it('describes the registered tools in the system prompt', async () => {
+    const { agentManager } = await installService(['analyze', 'segment']);
+    const prompt = agentManager.settings?.systemPrompt ?? '';
+
+    expect(prompt).toContain('**Tools** (2)');
+    expect(prompt).toContain('`tools__analyze`**: Run analyze');
+    expect(prompt).toContain('`tools__segment`**: Run segment');
+  });
+
+  it('does not replace or advertise a tool whose name is taken', async () => {
+    const { agentManager, proxy } = await installService(['analyze', 'segment'], ['executeCode', 'tools__analyze']);
+    const prompt = agentManager.settings?.systemPrompt ?? '';
+
+    await agentManager.tools.get('tools__analyze')!.handler({});
+    expect(proxy.analyze).not.toHaveBeenCalled();
+    expect(prompt).toContain('**Tools** (1)');
+    expect(prompt).not.toContain('tools__analyze');
+    expect(prompt).toContain('`tools__segment`');
+  });
+});
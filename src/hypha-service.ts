@@ -1,7 +1,8 @@
 // Hypha Service Registration and Management
-import type { AgentSettings } from './settings';
+import { getExecutionTimeout, normalizeSettings, type AgentSettings } from './settings';
 import type { KernelManager } from './kernel';
-import type { AgentManager } from './agent';
+import type { AgentManager, RunOptions, ToolSchema, ToolHandler } from './agent';
+import type { AgentEvent, AgentEventOf } from './agent-events';
 
 export interface HyphaServiceConfig {
   serverUrl: string;
@@ -22,6 +23,7 @@ interface Job {
   input: any;
   result?: any;
   error?: string;
+  progress?: { step: number; maxSteps: number }; // Reasoning step of a running chat job
 }
 
 export interface InstalledService {
@@ -29,6 +31,8 @@ export interface InstalledService {
   name: string;
   description: string;
   serviceUrl: string;
+  // Query used with server.getService() (e.g., workspace/clientId:serviceId)
+  serviceQuery: string;
   // Functions/methods available in this service
   functions?: Array<{
     name: string;
@@ -39,6 +43,28 @@ export interface InstalledService {
   schema?: any;
 }
 
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Result schema of a chat request: `result_schema`, or the schema of an OpenAI-style
+ * `response_format` of type json_schema
+ */
+function getResultSchema(result_schema?: any, response_format?: any): any {
+  return result_schema ?? response_format?.json_schema?.schema;
+}
+
+/**
+ * 8-character hex hash of a string (FNV-1a), used to keep shortened names unique
+ */
+function shortHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
 export class HyphaService {
   private server: any = null;
   private serviceId: string | null = null;
@@ -57,6 +83,7 @@ export class HyphaService {
   private installedServices: InstalledService[] = [];
   private servicePrompt: string = '';
   private baseSystemPrompt: string = ''; // Store the base prompt without service info
+  private registeredTools: Array<{ name: string; service: InstalledService; description: string }> = []; // Registered on the agent manager
 
   constructor(
     settings: AgentSettings,
@@ -64,14 +91,14 @@ export class HyphaService {
     agentManager: AgentManager | null,
     onOutput: (message: string, type?: string) => void
   ) {
-    this.settings = settings;
+    this.settings = normalizeSettings(settings);
     this.kernelManager = kernelManager;
     this.agentManager = agentManager;
     this.onOutput = onOutput;
   }
 
   updateSettings(settings: AgentSettings): void {
-    this.settings = settings;
+    this.settings = normalizeSettings(settings);
     // Store the base system prompt (without service info)
     if (settings.systemPrompt) {
       this.baseSystemPrompt = settings.systemPrompt;
@@ -82,6 +109,98 @@ export class HyphaService {
 
   updateAgentManager(agentManager: AgentManager): void {
     this.agentManager = agentManager;
+    this.refreshServiceTools();
+  }
+
+  /**
+   * Register the tools of the installed services, then describe the registered ones
+   * in the system prompt
+   */
+  private refreshServiceTools(): void {
+    this.syncServiceTools();
+    this.servicePrompt = this.generateServicePrompt(this.installedServices);
+    this.updateCombinedSystemPrompt();
+  }
+
+  /**
+   * Register installed service functions as native tools on the agent manager,
+   * replacing the tools registered for previously installed services
+   */
+  private syncServiceTools(): void {
+    if (!this.agentManager) return;
+
+    for (const { name } of this.registeredTools) {
+      this.agentManager.unregisterTool(name);
+    }
+    this.registeredTools = [];
+
+    const existingNames = new Set(this.agentManager.getToolNames());
+    for (const { name, service, description, schema, handler } of this.buildServiceTools()) {
+      // Never replace a built-in tool or a tool of another service with the same name
+      if (existingNames.has(name)) {
+        this.onOutput(`⚠ Tool ${name} not registered: the name is already used by another tool`, 'error');
+        continue;
+      }
+      this.agentManager.registerTool(name, schema, handler);
+      this.registeredTools.push({ name, service, description });
+      existingNames.add(name);
+    }
+  }
+
+  /**
+   * Turn each installed service function into a tool that calls the service
+   * through the connected Hypha server
+   */
+  private buildServiceTools(): Array<{ name: string; service: InstalledService; description: string; schema: ToolSchema; handler: ToolHandler }> {
+    const tools: Array<{ name: string; service: InstalledService; description: string; schema: ToolSchema; handler: ToolHandler }> = [];
+
+    for (const service of this.installedServices) {
+      for (const func of service.functions || []) {
+        tools.push({
+          name: this.getToolName(service, func.name),
+          service,
+          description: func.description,
+          schema: {
+            description: `[${service.name}] ${func.description || func.name}`,
+            parameters: func.parameters || {}
+          },
+          handler: async (args: any) => {
+            const result = await this.callServiceFunction(service, func.name, args);
+            return { success: true, result: result ?? null };
+          }
+        });
+      }
+    }
+
+    return tools;
+  }
+
+  /**
+   * Tool names must match ^[a-zA-Z0-9_-]{1,64}$ for OpenAI function calling. Names that
+   * are too long are shortened and get a hash of the full name, so they stay distinct.
+   */
+  private getToolName(service: InstalledService, functionName: string): string {
+    const fullName = `${service.id}__${functionName}`;
+    const name = fullName.replace(/[^a-zA-Z0-9_-]/g, '_');
+    if (name.length <= MAX_TOOL_NAME_LENGTH) {
+      return name;
+    }
+    const hash = shortHash(fullName);
+    return `${name.substring(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+  }
+
+  private async callServiceFunction(service: InstalledService, functionName: string, args: any): Promise<any> {
+    if (!this.server) {
+      throw new Error('Server not connected. Please connect to a Hypha server first.');
+    }
+
+    const proxy = await this.server.getService(service.serviceQuery);
+    if (!proxy || typeof proxy[functionName] !== 'function') {
+      throw new Error(`Function "${functionName}" not found in service ${service.serviceQuery}`);
+    }
+
+    // Pass arguments as keyword arguments to the remote function
+    return await proxy[functionName]({ ...(args || {}), _rkwargs: true });
   }
 
   /**
@@ -332,6 +451,14 @@ export class HyphaService {
             max_steps: {
               type: 'number',
               description: 'Maximum reasoning steps for React loop'
+            },
+            result_schema: {
+              type: 'object',
+              description: 'Optional JSON schema for a structured result. The agent finishes by calling final_answer with a `result` validated against it, returned as `result`'
+            },
+            response_format: {
+              type: 'object',
+              description: 'OpenAI-style response format; a json_schema format is used as result_schema'
             }
           },
           required: ['messages']
@@ -347,6 +474,10 @@ export class HyphaService {
             code: {
               type: 'string',
               description: 'Python code to execute'
+            },
+            timeout: {
+              type: 'number',
+              description: 'Timeout in seconds (defaults to the executionTimeout setting, 0 disables)'
             }
           },
           required: ['code']
@@ -366,7 +497,7 @@ export class HyphaService {
 
         // Chat completion endpoint (OpenAI-compatible)
         chatCompletion: Object.assign(
-          async ({ messages, model: _model, temperature: _temperature, stream: _stream = true, max_steps }: any, _context?: any) => {
+          async ({ messages, model: _model, temperature: _temperature, stream: _stream = true, max_steps, result_schema, response_format }: any, _context?: any) => {
             if (!this.agentManager) {
               throw new Error('Agent manager not initialized');
             }
@@ -378,8 +509,9 @@ export class HyphaService {
             const userMessage = messages[messages.length - 1]?.content || '';
 
             try {
-              await this.agentManager.processQueryInReactLoop(userMessage, maxSteps);
-              return { success: true, message: 'Query processed successfully' };
+              return await this.runChatQuery(userMessage, maxSteps, {
+                resultSchema: getResultSchema(result_schema, response_format)
+              });
             } catch (error) {
               this.onOutput(`Chat completion error: ${(error as Error).message}`, 'error');
               throw error;
@@ -390,7 +522,7 @@ export class HyphaService {
 
         // Direct code execution
         executeCode: Object.assign(
-          async ({ code }: { code: string }, _context?: any) => {
+          async ({ code, timeout }: { code: string; timeout?: number }, _context?: any) => {
             this.onOutput(`🌐 Remote call: executeCode() - Executing ${code.length} chars`, 'info');
 
             if (!this.kernelManager.isInitialized()) {
@@ -398,8 +530,8 @@ export class HyphaService {
             }
 
             try {
-              const result = await this.kernelManager.executeCode(code);
-              this.onOutput(`✓ Code execution completed`, 'info');
+              const result = await this.kernelManager.executeCode(code, { timeoutMs: this.getTimeoutMs(timeout) });
+              this.onOutput(result.timedOut ? `⏱ Code execution timed out` : `✓ Code execution completed`, 'info');
               return result;
             } catch (error) {
               this.onOutput(`Code execution error: ${(error as Error).message}`, 'error');
@@ -409,6 +541,28 @@ export class HyphaService {
           { __schema__: executeCodeSchema }
         ),
 
+        // Variables in the kernel namespace
+        listVariables: Object.assign(
+          async (_params: any, _context?: any) => {
+            this.onOutput(`🌐 Remote call: listVariables()`, 'info');
+
+            if (!this.kernelManager.isInitialized()) {
+              throw new Error('Kernel not initialized');
+            }
+            return { variables: await this.kernelManager.inspectNamespace() };
+          },
+          {
+            __schema__: {
+              name: 'listVariables',
+              description: 'List the user variables in the Python kernel with their type, shape or length, memory size (bytes) and a short repr',
+              parameters: {
+                type: 'object',
+                properties: {}
+              }
+            }
+          }
+        ),
+
         // Update agent settings
         updateSettings: Object.assign(
           async ({ settings }: { settings: Partial<AgentSettings> }, _context?: any) => {
@@ -417,7 +571,7 @@ export class HyphaService {
             try {
               // Update local settings
               const currentSettings = this.settings;
-              const newSettings = { ...currentSettings, ...settings };
+              const newSettings = normalizeSettings({ ...currentSettings, ...settings });
               this.settings = newSettings;
 
               // Update agent manager if available
@@ -462,7 +616,7 @@ export class HyphaService {
             try {
               const history = this.agentManager.getConversationHistory();
               this.onOutput(`✓ Retrieved ${history.length} conversation messages`, 'info');
-              return { success: true, history };
+              return { success: true, history, plan: this.agentManager.getPlan() };
             } catch (error) {
               this.onOutput(`Get conversation error: ${(error as Error).message}`, 'error');
               throw error;
@@ -512,9 +666,9 @@ export class HyphaService {
 
         // Submit chat job (async with job ID)
         submitChatJob: Object.assign(
-          async ({ messages, max_steps }: { messages: any[]; max_steps?: number }, _context?: any) => {
+          async ({ messages, max_steps, result_schema, response_format }: { messages: any[]; max_steps?: number; result_schema?: any; response_format?: any }, _context?: any) => {
             this.onOutput(`🌐 Remote call: submitChatJob()`, 'info');
-            const jobId = this.submitChatJob(messages, max_steps);
+            const jobId = this.submitChatJob(messages, max_steps, result_schema, response_format);
             return { jobId };
           },
           {
@@ -531,6 +685,14 @@ export class HyphaService {
                   max_steps: {
                     type: 'number',
                     description: 'Maximum reasoning steps'
+                  },
+                  result_schema: {
+                    type: 'object',
+                    description: 'Optional JSON schema for a structured result (see chatCompletion)'
+                  },
+                  response_format: {
+                    type: 'object',
+                    description: 'OpenAI-style response format; a json_schema format is used as result_schema'
                   }
                 },
                 required: ['messages']
@@ -541,9 +703,9 @@ export class HyphaService {
 
         // Submit code execution job (async with job ID)
         submitCodeJob: Object.assign(
-          async ({ code }: { code: string }, _context?: any) => {
+          async ({ code, timeout }: { code: string; timeout?: number }, _context?: any) => {
             this.onOutput(`🌐 Remote call: submitCodeJob()`, 'info');
-            const jobId = this.submitCodeJob(code);
+            const jobId = this.submitCodeJob(code, timeout);
             return { jobId };
           },
           {
@@ -556,6 +718,10 @@ export class HyphaService {
                   code: {
                     type: 'string',
                     description: 'Python code to execute'
+                  },
+                  timeout: {
+                    type: 'number',
+                    description: 'Timeout in seconds (defaults to the executionTimeout setting, 0 disables)'
                   }
                 },
                 required: ['code']
@@ -755,6 +921,56 @@ export class HyphaService {
     return `job_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
+  /**
+   * Run a query through the agent's React loop and collect its events into a structured result
+   */
+  private async runChatQuery(userMessage: string, maxSteps: number, options: RunOptions = {}, onEvent?: (event: AgentEvent) => void): Promise<any> {
+    const agentManager = this.agentManager!;
+    const toolCalls: Array<{ step: number; id: string; name: string; arguments: any; result?: string; success?: boolean }> = [];
+    let done: AgentEventOf<'done'> | null = null;
+    let errorMessage: string | null = null;
+
+    const unsubscribe = agentManager.events.on('*', (event) => {
+      if (event.type === 'tool_call') {
+        toolCalls.push({ step: event.step, id: event.id, name: event.name, arguments: event.arguments });
+      } else if (event.type === 'tool_result') {
+        const call = toolCalls.find(call => call.id === event.id);
+        if (call) {
+          call.result = event.content;
+          call.success = event.success;
+        }
+      } else if (event.type === 'error') {
+        errorMessage = event.message;
+      } else if (event.type === 'done') {
+        done = event;
+      }
+      onEvent?.(event);
+    });
+
+    try {
+      await agentManager.processQueryInReactLoop(userMessage, maxSteps, options);
+    } finally {
+      unsubscribe();
+    }
+
+    const result = done as AgentEventOf<'done'> | null; // Assigned in the listener
+    if (result?.reason === 'error') {
+      throw new Error(errorMessage ?? 'Query failed');
+    }
+    // A requested structured result must be present for the query to count as successful
+    const success = result?.reason === 'completed' && (!options.resultSchema || result.result !== undefined);
+    return {
+      success,
+      message: success ? 'Query processed successfully' : `Query ended: ${options.resultSchema && result?.reason === 'completed' ? 'no valid result' : result?.reason ?? 'unknown'}`,
+      reason: result?.reason,
+      content: result?.content ?? '',
+      result: result?.result,
+      steps: result?.steps ?? 0,
+      toolCalls,
+      usage: result?.usage ?? agentManager.getLastQueryUsage()
+    };
+  }
+
   private async processJobQueue(): Promise<void> {
     if (this.isProcessingQueue || this.jobQueue.length === 0) {
       return;
@@ -779,7 +995,7 @@ export class HyphaService {
       try {
         if (job.type === 'chat') {
           // Process chat completion
-          const { messages, max_steps } = job.input;
+          const { messages, max_steps, result_schema } = job.input;
           const maxSteps = max_steps || this.settings.maxSteps;
           const userMessage = messages[messages.length - 1]?.content || '';
 
@@ -787,17 +1003,20 @@ export class HyphaService {
             throw new Error('Agent manager not initialized');
           }
 
-          await this.agentManager.processQueryInReactLoop(userMessage, maxSteps);
-          job.result = { success: true, message: 'Query processed successfully' };
+          job.result = await this.runChatQuery(userMessage, maxSteps, { resultSchema: result_schema }, (event) => {
+            if (event.type === 'step_start') {
+              job.progress = { step: event.step, maxSteps: event.maxSteps };
+            }
+          });
         } else if (job.type === 'code') {
           // Process code execution
-          const { code } = job.input;
+          const { code, timeout } = job.input;
 
           if (!this.kernelManager.isInitialized()) {
             throw new Error('Kernel not initialized');
           }
 
-          const result = await this.kernelManager.executeCode(code);
+          const result = await this.kernelManager.executeCode(code, { timeoutMs: this.getTimeoutMs(timeout) });
           job.result = result;
         }
 
@@ -818,14 +1037,14 @@ export class HyphaService {
     this.isProcessingQueue = false;
   }
 
-  submitChatJob(messages: any[], max_steps?: number): string {
+  submitChatJob(messages: any[], max_steps?: number, result_schema?: any, response_format?: any): string {
     const jobId = this.generateJobId();
     const job: Job = {
       id: jobId,
       type: 'chat',
       status: 'queued',
       submittedAt: Date.now(),
-      input: { messages, max_steps }
+      input: { messages, max_steps, result_schema: getResultSchema(result_schema, response_format) }
     };
 
     this.jobs.set(jobId, job);
@@ -840,14 +1059,14 @@ export class HyphaService {
     return jobId;
   }
 
-  submitCodeJob(code: string): string {
+  submitCodeJob(code: string, timeout?: number): string {
     const jobId = this.generateJobId();
     const job: Job = {
       id: jobId,
       type: 'code',
       status: 'queued',
       submittedAt: Date.now(),
-      input: { code }
+      input: { code, timeout }
     };
 
     this.jobs.set(jobId, job);
@@ -862,6 +1081,16 @@ export class HyphaService {
     return jobId;
   }
 
+  /**
+   * Execution timeout in milliseconds: the per-call value (seconds) or the configured default
+   */
+  private getTimeoutMs(timeout?: number): number {
+    const seconds = typeof timeout === 'number' && Number.isFinite(timeout) && timeout >= 0
+      ? timeout
+      : getExecutionTimeout(this.settings.executionTimeout);
+    return seconds * 1000;
+  }
+
   getJobStatus(jobId: string): Job | null {
     return this.jobs.get(jobId) || null;
   }
@@ -1011,6 +1240,7 @@ export class HyphaService {
         name: serviceName,
         description: serviceDescription,
         serviceUrl: serviceUrl,
+        serviceQuery: serviceQuery,
         functions: functions,
         schema: schema
       };
@@ -1023,11 +1253,10 @@ export class HyphaService {
       // Add to installed services
       this.installedServices.push(newService);
 
-      // Regenerate service prompt and update agent settings
-      this.servicePrompt = this.generateServicePrompt(this.installedServices);
-      this.updateCombinedSystemPrompt();
+      // Regenerate service prompt and update agent settings and tools
+      this.refreshServiceTools();
 
-      this.onOutput(`[Service Install] Successfully installed: ${serviceName}`, 'info');
+      this.onOutput(`[Service Install] Successfully installed: ${serviceName} (${functions?.length || 0} tools)`, 'info');
 
       return newService;
     } catch (error) {
@@ -1051,9 +1280,8 @@ export class HyphaService {
     // Remove from installed services
     this.installedServices = this.installedServices.filter(s => s.id !== serviceId);
 
-    // Regenerate service prompt and update agent settings
-    this.servicePrompt = this.generateServicePrompt(this.installedServices);
-    this.updateCombinedSystemPrompt();
+    // Regenerate service prompt and update agent settings and tools
+    this.refreshServiceTools();
 
     this.onOutput(`[Service Remove] Removed service: ${serviceId}`, 'info');
     return true;
@@ -1082,7 +1310,7 @@ export class HyphaService {
 
   /**
    * Generate service prompt from installed services
-   * Based on hypha-agents environmentPrompt pattern
+   * Service functions are exposed as native tools, so the prompt only describes the registered ones
    */
   private generateServicePrompt(services: InstalledService[]): string {
     if (services.length === 0) {
@@ -1094,175 +1322,31 @@ export class HyphaService {
     prompt += '---\n\n';
     prompt += '## 🔌 INSTALLED HYPHA SERVICES\n\n';
     prompt += `**You have ${services.length} external Hypha service${services.length > 1 ? 's' : ''} installed** that provide additional capabilities beyond Python code execution.\n\n`;
+    prompt += 'Each service function is available to you as a **tool**. Call these tools directly, the same way you call `executeCode`. ';
+    prompt += 'Do NOT try to connect to Hypha from Python - the connection is already handled for you and the tool result contains the JSON returned by the service.\n\n';
 
-    // Add general instructions for using Hypha services
-    prompt += '### How to Connect to Hypha and Use Services\n\n';
-    prompt += '**IMPORTANT**: To use Hypha services, you first need to connect to the Hypha server in Python.\n\n';
-
-    prompt += '#### Step 1: Install Required Packages and Connect\n\n';
-    prompt += '```python\n';
-    prompt += '# Install required packages (only needed once per session)\n';
-    prompt += 'import micropip\n';
-    prompt += 'await micropip.install(["imjoy-rpc", "pyodide-http"])\n\n';
-    prompt += '# Patch HTTP for Pyodide\n';
-    prompt += 'import pyodide_http\n';
-    prompt += 'pyodide_http.patch_all()\n\n';
-    prompt += '# Import and connect to Hypha\n';
-    prompt += 'from imjoy_rpc.hypha import connect_to_server\n\n';
-    prompt += '# Connect to the Hypha server\n';
-    prompt += 'server = await connect_to_server({\n';
-    prompt += '    "server_url": "https://hypha.aicell.io",\n';
-    prompt += '    "workspace": "your-workspace-name",  # Optional: specify workspace\n';
-    prompt += '    "token": "your-token"  # Optional: for authentication\n';
-    prompt += '})\n\n';
-    prompt += 'print(f"Connected to Hypha server: {server.config.workspace}")\n';
-    prompt += '```\n\n';
-
-    prompt += '**Note**: After connecting once, the `server` object is available for the rest of the session.\n\n';
-
-    prompt += '#### Step 2: Use Hypha Services\n\n';
-    prompt += 'Once connected, you can access any Hypha service:\n\n';
-    prompt += '```python\n';
-    prompt += '# Get a service by its ID\n';
-    prompt += 'my_service = await server.get_service("workspace/client-id:service-id")\n\n';
-    prompt += '# Call service functions (always use await)\n';
-    prompt += 'result = await my_service.some_function(param1="value", param2=123)\n';
-    prompt += 'print(result)\n';
-    prompt += '```\n\n';
-
-    prompt += '**CRITICAL**: All service calls are asynchronous and MUST use `await`!\n\n';
-
-    prompt += '### Available Services\n\n';
-    prompt += 'Below are the detailed specifications for each installed service:\n\n';
-
-    // List each service with its tools
     services.forEach((service, index) => {
-      prompt += `#### Service ${index + 1}: ${service.name}\n\n`;
+      prompt += `### Service ${index + 1}: ${service.name}\n\n`;
       if (service.description) {
         prompt += `**Description**: ${service.description}\n\n`;
       }
 
-      // Parse service URL to get the service ID for get_service call
-      let serviceId = service.serviceUrl;
-      if (service.serviceUrl.startsWith('http://') || service.serviceUrl.startsWith('https://')) {
-        try {
-          const url = new URL(service.serviceUrl);
-          const pathParts = url.pathname.split('/').filter(p => p);
-          // Decode workspace and service part (may contain URL-encoded characters)
-          const workspace = decodeURIComponent(pathParts[0]);
-          const servicePart = pathParts.find(p => p.includes(':'));
-          if (workspace && servicePart) {
-            // Decode service part before constructing serviceId
-            serviceId = `${workspace}/${decodeURIComponent(servicePart)}`;
-          }
-        } catch (e) {
-          // Keep original serviceUrl if parsing fails
-        }
-      }
-
-      prompt += `**Service ID**: \`${serviceId}\`\n\n`;
-      prompt += '**How to get this service**:\n';
-      prompt += '```python\n';
-      prompt += `${service.id.replace(/-/g, '_')} = await server.get_service("${serviceId}")\n`;
-      prompt += '```\n\n';
-
-      // Show the complete service_schema
-      if (service.schema) {
-        // Convert array schema back to object format for display (if it's an array)
-        let schemaToDisplay = service.schema;
-        if (Array.isArray(service.schema)) {
-          // Convert array to object with function names as keys
-          schemaToDisplay = {};
-          service.schema.forEach((tool: any) => {
-            if (tool.function?.name) {
-              schemaToDisplay[tool.function.name] = tool;
-            }
-          });
-        }
-
-        const functionCount = service.functions?.length || Object.keys(schemaToDisplay).length;
-        prompt += `**Service Schema** (${functionCount} functions):\n\n`;
-        prompt += 'The following tools are available in this service with their complete argument schemas:\n\n';
-        prompt += '```json\n';
-        prompt += JSON.stringify(schemaToDisplay, null, 2);
-        prompt += '\n```\n\n';
-
-        // Show usage examples
-        prompt += '**Usage Examples**:\n\n';
-        const serviceName = service.id.replace(/-/g, '_');
-
-        if (service.functions && service.functions.length > 0) {
-          // Show examples for first 2-3 functions
-          const exampleFunctions = service.functions.slice(0, Math.min(3, service.functions.length));
-
-          exampleFunctions.forEach((func, idx) => {
-            prompt += `${idx + 1}. **${func.name}**`;
-            if (func.description) {
-              const shortDesc = func.description.length > 80
-                ? func.description.substring(0, 77) + '...'
-                : func.description;
-              prompt += ` - ${shortDesc}`;
-            }
-            prompt += '\n';
-
-            prompt += '   ```python\n';
-            prompt += `   result = await ${serviceName}.${func.name}(`;
-
-            if (func.parameters && func.parameters.properties) {
-              const params = Object.entries(func.parameters.properties);
-              const paramExamples = params.slice(0, 2).map(([name, info]: [string, any]) => {
-                const example = info.type === 'string' ? `"example"` :
-                               info.type === 'number' ? `42` :
-                               info.type === 'boolean' ? `True` :
-                               info.type === 'array' ? `[]` :
-                               info.type === 'object' ? `{}` : `None`;
-                return `${name}=${example}`;
-              });
-              prompt += paramExamples.join(', ');
-            }
-
-            prompt += ')\n';
-            prompt += '   print(result)\n';
-            prompt += '   ```\n\n';
-          });
-
-          // Add a complete workflow example
-          prompt += '**Complete Workflow Example**:\n';
-          prompt += '```python\n';
-          prompt += `# Step 1: Get the service\n`;
-          prompt += `${serviceName} = await server.get_service("${serviceId}")\n\n`;
-          prompt += `# Step 2: Use the service functions\n`;
-
-          const firstFunc = service.functions[0];
-          if (firstFunc.parameters && firstFunc.parameters.properties) {
-            const params = Object.entries(firstFunc.parameters.properties);
-            const paramExamples = params.slice(0, 2).map(([name, info]: [string, any]) => {
-              const example = info.type === 'string' ? `"example"` :
-                             info.type === 'number' ? `42` :
-                             info.type === 'boolean' ? `True` : `None`;
-              return `${name}=${example}`;
-            });
-            prompt += `result = await ${serviceName}.${firstFunc.name}(${paramExamples.join(', ')})\n`;
-          } else {
-            prompt += `result = await ${serviceName}.${firstFunc.name}()\n`;
-          }
-          prompt += 'print(result)\n';
-          prompt += '```\n\n';
-        }
-      } else if (service.functions && service.functions.length > 0) {
-        // Fallback if no schema but we have function info
-        prompt += `**Available Functions** (${service.functions.length}):\n`;
-        service.functions.forEach(func => {
-          prompt += `- **\`${func.name}\`**`;
-          if (func.description) {
-            prompt += `: ${func.description}`;
+      const tools = this.registeredTools.filter(tool => tool.service === service);
+      if (tools.length > 0) {
+        prompt += `**Tools** (${tools.length}):\n`;
+        tools.forEach(tool => {
+          prompt += `- **\`${tool.name}\`**`;
+          if (tool.description) {
+            prompt += `: ${tool.description}`;
           }
           prompt += '\n';
         });
         prompt += '\n';
+      } else if (service.functions && service.functions.length > 0) {
+        prompt += 'The tool names of this service are already taken by other tools, so no tools are available for it.\n\n';
+      } else {
+        prompt += 'This service does not expose a function schema, so no tools are available for it.\n\n';
       }
-
-      prompt += '---\n\n';
     });
 
     return prompt;
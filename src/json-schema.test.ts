@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { validateJsonSchema } from './json-schema';
+
+// A typical result schema, as passed with result_schema or response_format
+const RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    count: { type: 'integer', minimum: 0 },
+    label: { type: 'string', enum: ['cell', 'nucleus'] },
+    scores: { type: 'array', items: { type: 'number' }, minItems: 1 }
+  },
+  required: ['count', 'label'],
+  additionalProperties: false
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a valid result', () => {
+    expect(validateJsonSchema({ count: 3, label: 'cell', scores: [0.5, 0.9] }, RESULT_SCHEMA)).toEqual([]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateJsonSchema({ count: 3 }, RESULT_SCHEMA)).toEqual(['$: missing required property "label"']);
+  });
+
+  it('reports unexpected properties', () => {
+    expect(validateJsonSchema({ count: 3, label: 'cell', extra: true }, RESULT_SCHEMA))
+      .toEqual(['$: unexpected property "extra"']);
+  });
+
+  it('reports wrong types with their path', () => {
+    expect(validateJsonSchema({ count: 2.5, label: 'cell', scores: [1, 'high'] }, RESULT_SCHEMA)).toEqual([
+      '$.count: expected integer, got number',
+      '$.scores[1]: expected number, got string'
+    ]);
+  });
+
+  it('stops at a type mismatch of the whole value', () => {
+    expect(validateJsonSchema('3 cells', RESULT_SCHEMA)).toEqual(['$: expected object, got string']);
+    expect(validateJsonSchema(null, RESULT_SCHEMA)).toEqual(['$: expected object, got null']);
+    expect(validateJsonSchema([], RESULT_SCHEMA)).toEqual(['$: expected object, got array']);
+  });
+
+  it('checks enum, const, ranges and lengths', () => {
+    expect(validateJsonSchema({ count: -1, label: 'dog', scores: [] }, RESULT_SCHEMA)).toEqual([
+      '$.count: must be >= 0',
+      '$.label: must be one of ["cell","nucleus"]',
+      '$.scores: must have at least 1 items'
+    ]);
+    expect(validateJsonSchema('v2', { const: 'v1' })).toEqual(['$: must be "v1"']);
+    expect(validateJsonSchema('abcd', { type: 'string', maxLength: 3, pattern: '^[0-9]+$' })).toEqual([
+      '$: must have at most 3 characters',
+      '$: must match pattern ^[0-9]+$'
+    ]);
+  });
+
+  it('supports type lists', () => {
+    const schema = { type: ['string', 'null'] };
+    expect(validateJsonSchema(null, schema)).toEqual([]);
+    expect(validateJsonSchema(1, schema)).toEqual(['$: expected string or null, got number']);
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(validateJsonSchema(NaN, { type: 'number' })).toEqual(['$: expected number, got number']);
+  });
+
+  it('validates additional properties against a schema', () => {
+    const schema = { type: 'object', additionalProperties: { type: 'number' } };
+    expect(validateJsonSchema({ a: 1, b: 'two' }, schema)).toEqual(['$.b: expected number, got string']);
+  });
+
+  it('combines anyOf, oneOf and allOf', () => {
+    const anyOf = { anyOf: [{ type: 'string' }, { type: 'integer' }] };
+    expect(validateJsonSchema(4, anyOf)).toEqual([]);
+    expect(validateJsonSchema(true, anyOf)).toEqual(['$: does not match any of the allowed schemas']);
+    expect(validateJsonSchema(true, { oneOf: anyOf.anyOf })).toEqual(['$: does not match any of the allowed schemas']);
+
+    const allOf = { allOf: [{ type: 'object', required: ['a'] }, { type: 'object', required: ['b'] }] };
+    expect(validateJsonSchema({ a: 1 }, allOf)).toEqual(['$: missing required property "b"']);
+  });
+
+  it('treats boolean and missing schemas as in JSON Schema', () => {
+    expect(validateJsonSchema({ anything: 1 }, true)).toEqual([]);
+    expect(validateJsonSchema({ anything: 1 }, undefined)).toEqual([]);
+    expect(validateJsonSchema(1, false)).toEqual(['$: no value is allowed here']);
+  });
+
+  it('ignores unknown keywords', () => {
+    expect(validateJsonSchema('x', { type: 'string', format: 'email', title: 'Address' })).toEqual([]);
+  });
+});
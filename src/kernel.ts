@@ -11,6 +11,147 @@ export interface ExecutionResult {
   success: boolean;
   outputs: ExecutionEvent[];
   error?: string;
+  timedOut?: boolean; // The execution hit its timeout and was interrupted (or the kernel restarted)
+}
+
+export interface ExecuteOptions {
+  timeoutMs?: number; // Interrupt the execution after this long (0 or unset waits forever)
+}
+
+/**
+ * A user variable in the kernel namespace
+ */
+export interface NamespaceVariable {
+  name: string;
+  type: string; // e.g. "int", "numpy.ndarray", "pandas.DataFrame"
+  shape?: number[]; // For arrays and data frames
+  length?: number; // For other sized values (lists, dicts, strings...)
+  size: number; // Approximate memory size in bytes
+  repr: string; // Short single-line representation
+}
+
+/**
+ * An entry of a directory in the kernel filesystem
+ */
+export interface KernelFile {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  size: number; // Bytes (0 for directories)
+  modified: number; // Unix time in milliseconds
+}
+
+// Directory uploads go to by default; also the kernel's working directory
+export const WORKING_DIRECTORY = '/home/pyodide';
+
+// Marks the JSON result line in the stdout of helper scripts
+const RESULT_MARKER = '__HELPER_RESULT__';
+
+// How long a helper script (listing variables, file access) may run before it is interrupted
+const HELPER_TIMEOUT_MS = 30000;
+
+// How long installing one package may take
+const INSTALL_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Script that defines a helper function, prints the JSON of the given call after RESULT_MARKER and
+ * deletes the function again, so no helper names are left in the user's namespace
+ */
+function helperScript(definition: string, call: string): string {
+  const name = definition.match(/def (\w+)\(/)![1];
+  return `${definition.trim()}
+
+try:
+    print('${RESULT_MARKER}' + __import__('json').dumps(${call}))
+finally:
+    del ${name}
+`;
+}
+
+// Local wheel index bundled with the app (copied from web-python-kernel's dist/pypi)
+const LOCAL_PYPI_URL = '/pypi/';
+
+/**
+ * Normalized package name of a requirement (e.g. "Scikit_Learn>=1.3" -> "scikit-learn")
+ */
+function getPackageName(requirement: string): string {
+  return requirement.trim().split(/[<>=!~\[;\s]/)[0].toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+// Raw bytes per chunk when writing files into or reading files from the kernel
+const FILE_CHUNK_SIZE = 512 * 1024;
+
+// Lists user globals; skips private names, modules, functions and classes
+const INSPECT_NAMESPACE_SCRIPT = helperScript(`
+def __inspect_namespace():
+    import sys, types
+    skipped = {'In', 'Out', 'exit', 'quit', 'get_ipython'}
+    hidden = (types.ModuleType, types.FunctionType, types.BuiltinFunctionType, types.MethodType, type)
+    variables = []
+    for name, value in list(globals().items()):
+        if name.startswith('_') or name in skipped or isinstance(value, hidden):
+            continue
+        cls = type(value)
+        module = cls.__module__.split('.')[0]
+        entry = {'name': name, 'type': cls.__name__ if module == 'builtins' else f'{module}.{cls.__name__}'}
+        shape = getattr(value, 'shape', None)
+        if isinstance(shape, tuple) and all(isinstance(n, int) for n in shape):
+            entry['shape'] = list(shape)
+        else:
+            try:
+                entry['length'] = len(value)
+            except Exception:
+                pass
+        try:
+            if hasattr(value, 'memory_usage') and callable(value.memory_usage):
+                usage = value.memory_usage(deep=True)
+                entry['size'] = int(usage.sum() if hasattr(usage, 'sum') else usage)
+            elif isinstance(getattr(value, 'nbytes', None), int):
+                entry['size'] = value.nbytes
+            else:
+                entry['size'] = sys.getsizeof(value)
+        except Exception:
+            entry['size'] = sys.getsizeof(value)
+        try:
+            text = ' '.join(repr(value).split())
+        except Exception as error:
+            text = f'<repr failed: {error}>'
+        entry['repr'] = text if len(text) <= 120 else text[:117] + '...'
+        variables.append(entry)
+    return variables
+`, '__inspect_namespace()');
+
+// How long an interrupted execution may take to stop before the kernel is restarted
+const INTERRUPT_GRACE_MS = 5000;
+
+const TIMED_OUT = Symbol('timed out');
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Wait for a promise until the deadline; resolves to TIMED_OUT if the deadline passes first
+ */
+function raceDeadline<T>(promise: Promise<T>, deadline: number): Promise<T | typeof TIMED_OUT> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<typeof TIMED_OUT>(resolve => {
+    timer = setTimeout(() => resolve(TIMED_OUT), Math.max(0, deadline - Date.now()));
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
 }
 
 // Startup script that runs when kernel is initialized
@@ -47,6 +188,10 @@ export class KernelManager {
   private KernelEvents: any = null;
   private onOutput: (message: string, type?: string) => void;
   private onStatusChange: (status: 'initializing' | 'ready' | 'busy' | 'error', message: string) => void;
+  private executionListeners: Set<(restarted: boolean) => void> = new Set();
+  private packages: string[] = []; // Requirements installed on initialize() and after every restart
+  private localWheels: Promise<Map<string, string>> | null = null; // Package name -> wheel URL
+  private installProgress: string | null = null; // Status shown while packages install, kept over busy/idle events
 
   constructor(
     onOutput: (message: string, type?: string) => void,
@@ -113,6 +258,7 @@ export class KernelManager {
       this.onOutput('Running kernel startup script...');
 
       await this.executeStartupScript();
+      await this.installPackages();
 
       this.onStatusChange('ready', 'Kernel ready');
       this.onOutput('✓ Kernel initialization complete');
@@ -129,10 +275,12 @@ export class KernelManager {
     if (!this.kernelManager || !this.kernelId) return;
 
     this.kernelManager.onKernelEvent(this.kernelId, this.KernelEvents.KERNEL_BUSY, () => {
+      if (this.installProgress) return;
       this.onStatusChange('busy', 'Kernel busy...');
     });
 
     this.kernelManager.onKernelEvent(this.kernelId, this.KernelEvents.KERNEL_IDLE, () => {
+      if (this.installProgress) return;
       this.onStatusChange('ready', 'Kernel ready');
     });
   }
@@ -159,57 +307,127 @@ export class KernelManager {
     }
   }
 
-  async executeCode(code: string): Promise<ExecutionResult> {
+  /**
+   * Set the packages to preload. They are installed by initialize() and after every restart;
+   * call installPackages() to install them into the running kernel.
+   */
+  setPackages(packages: string[]): void {
+    this.packages = [...new Set(packages.map(requirement => requirement.trim()).filter(Boolean))];
+  }
+
+  getPackages(): string[] {
+    return [...this.packages];
+  }
+
+  /**
+   * Install the preloaded packages with micropip, preferring wheels from the local index
+   * and falling back to remote (Pyodide CDN / PyPI). Failures are reported but do not throw.
+   */
+  async installPackages(): Promise<void> {
+    if (this.packages.length === 0 || !this.kernelManager || !this.kernelId) {
+      return;
+    }
+
+    const localWheels = await this.getLocalWheels();
+    let installed = 0;
+    try {
+      for (const [index, requirement] of this.packages.entries()) {
+        this.installProgress = `Installing packages (${index + 1}/${this.packages.length}): ${requirement}...`;
+        this.onStatusChange('initializing', this.installProgress);
+        const wheelUrl = localWheels.get(getPackageName(requirement));
+
+        if (wheelUrl) {
+          try {
+            await this.micropipInstall(wheelUrl);
+            this.onOutput(`📦 ${requirement} installed (local wheel)`);
+            installed++;
+            continue;
+          } catch (error) {
+            console.warn(`[Kernel] Local wheel for ${requirement} failed, trying remote:`, error);
+          }
+        }
+
+        try {
+          await this.micropipInstall(requirement);
+          this.onOutput(`📦 ${requirement} installed`);
+          installed++;
+        } catch (error) {
+          this.onOutput(`✗ Failed to install ${requirement}: ${(error as Error).message}`, 'error');
+        }
+      }
+    } finally {
+      this.installProgress = null;
+    }
+
+    this.onOutput(`✓ ${installed}/${this.packages.length} preloaded packages installed`);
+    this.onStatusChange('ready', 'Kernel ready');
+  }
+
+  private async micropipInstall(target: string): Promise<void> {
+    await this.runHelperScript(helperScript(`
+async def __micropip_install(target):
+    import micropip
+    await micropip.install(target)
+`, `await __micropip_install(${JSON.stringify(target)})`), `install ${target}`, INSTALL_TIMEOUT_MS);
+  }
+
+  /**
+   * Wheels in the local index (all.json), fetched once. Empty when the index is missing.
+   */
+  private getLocalWheels(): Promise<Map<string, string>> {
+    if (!this.localWheels) {
+      this.localWheels = (async () => {
+        const wheels = new Map<string, string>();
+        try {
+          const indexUrl = new URL(`${LOCAL_PYPI_URL}all.json`, window.location.href);
+          const response = await fetch(indexUrl);
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          const index: Record<string, { latest?: { url?: string } }> = await response.json();
+          for (const [name, entry] of Object.entries(index)) {
+            if (entry.latest?.url) {
+              wheels.set(getPackageName(name), new URL(entry.latest.url, indexUrl).href);
+            }
+          }
+        } catch (error) {
+          console.warn('[Kernel] Local wheel index not available:', error);
+        }
+        return wheels;
+      })();
+    }
+    return this.localWheels;
+  }
+
+  async executeCode(code: string, options: ExecuteOptions = {}): Promise<ExecutionResult> {
     if (!this.kernelManager || !this.kernelId) {
       throw new Error('Kernel not initialized');
     }
 
     const outputs: ExecutionEvent[] = [];
     let hasError = false;
+    let restarted = false; // restartKernel() notifies the execution listeners itself
+    const timeoutMs = options.timeoutMs ?? 0;
+    const deadline = timeoutMs > 0 ? Date.now() + timeoutMs : Infinity;
 
     try {
       const stream = this.kernelManager.executeStream(this.kernelId, code);
+      const iterator: AsyncIterator<any> = stream[Symbol.asyncIterator]();
+
+      while (true) {
+        const pending = iterator.next();
+        const next = deadline === Infinity ? await pending : await raceDeadline(pending, deadline);
+        if (next === TIMED_OUT) {
+          const timeout = await this.handleTimeout(iterator, pending, outputs, timeoutMs);
+          restarted = timeout.restarted;
+          return timeout.result;
+        }
+        if (next.done) break;
 
-      for await (const event of stream) {
+        const event = next.value;
         outputs.push(event);
-
-        // Output results to terminal
-        if (event.type === 'stream') {
-          if (event.data?.name === 'stdout') {
-            // Split by newlines and output non-empty lines
-            const lines = event.data.text.split('\n').filter((line: string) => line.trim());
-            lines.forEach((line: string) => this.onOutput(line, 'stdout'));
-          } else if (event.data?.name === 'stderr') {
-            const lines = event.data.text.split('\n').filter((line: string) => line.trim());
-            lines.forEach((line: string) => this.onOutput(line, 'stderr'));
-          }
-        } else if (event.type === 'execute_result') {
-          if (event.data?.data?.['text/plain']) {
-            const result = event.data.data['text/plain'].trim();
-            if (result) this.onOutput(result, 'result');
-          }
-        } else if (event.type === 'display_data') {
-          if (event.data?.data?.['image/png']) {
-            this.onOutput('[Image output - PNG]', 'result');
-            // Could render image here if needed
-          } else if (event.data?.data?.['text/plain']) {
-            const result = event.data.data['text/plain'].trim();
-            if (result) this.onOutput(result, 'result');
-          }
-        } else if (event.type === 'error' || event.type === 'execute_error') {
+        if (this.outputExecutionEvent(event)) {
           hasError = true;
-          const errorMsg = `${event.data?.ename || 'Error'}: ${event.data?.evalue || 'Unknown error'}`;
-          this.onOutput(errorMsg, 'error');
-
-          if (event.data?.traceback) {
-            event.data.traceback.forEach((line: string) => {
-              if (line.trim()) {
-                // Strip ANSI escape codes from traceback
-                const cleanLine = this.stripAnsi(line);
-                this.onOutput(cleanLine, 'error');
-              }
-            });
-          }
         }
       }
 
@@ -224,6 +442,267 @@ export class KernelManager {
         outputs,
         error: (error as Error).message
       };
+    } finally {
+      if (!restarted) {
+        this.notifyExecutionListeners();
+      }
+    }
+  }
+
+  /**
+   * Subscribe to finished executions and restarts (e.g. to refresh the variable inspector).
+   * `restarted` is true when the kernel was restarted and its state and files are gone.
+   * Returns an unsubscribe function.
+   */
+  onExecutionComplete(listener: (restarted: boolean) => void): () => void {
+    this.executionListeners.add(listener);
+    return () => this.executionListeners.delete(listener);
+  }
+
+  private notifyExecutionListeners(restarted: boolean = false): void {
+    for (const listener of this.executionListeners) {
+      try {
+        listener(restarted);
+      } catch (error) {
+        console.error('Execution listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * List the user variables in the kernel namespace, without output to the terminal
+   */
+  async inspectNamespace(): Promise<NamespaceVariable[]> {
+    return this.runHelperScript(INSPECT_NAMESPACE_SCRIPT, 'inspect namespace');
+  }
+
+  /**
+   * List a directory of the kernel filesystem (directories first)
+   */
+  async listFiles(directory: string = WORKING_DIRECTORY): Promise<KernelFile[]> {
+    return this.runHelperScript(helperScript(`
+def __list_files(directory):
+    import os
+    entries = []
+    for entry in os.scandir(directory):
+        stat = entry.stat()
+        is_directory = entry.is_dir()
+        entries.append({'name': entry.name, 'path': entry.path, 'isDirectory': is_directory,
+                        'size': 0 if is_directory else stat.st_size, 'modified': int(stat.st_mtime * 1000)})
+    entries.sort(key=lambda e: (not e['isDirectory'], e['name'].lower()))
+    return entries
+`, `__list_files(${JSON.stringify(directory)})`), `list ${directory}`);
+  }
+
+  /**
+   * Write a file into the kernel filesystem, creating parent directories.
+   * Large files are sent in chunks.
+   */
+  async writeFile(path: string, data: Uint8Array): Promise<void> {
+    for (let offset = 0; offset === 0 || offset < data.length; offset += FILE_CHUNK_SIZE) {
+      const chunk = bytesToBase64(data.subarray(offset, offset + FILE_CHUNK_SIZE));
+      await this.runHelperScript(helperScript(`
+def __write_file(path, data, append):
+    import base64, os
+    if not append and os.path.dirname(path):
+        os.makedirs(os.path.dirname(path), exist_ok=True)
+    with open(path, 'ab' if append else 'wb') as file:
+        file.write(base64.b64decode(data))
+`, `__write_file(${JSON.stringify(path)}, '${chunk}', ${offset === 0 ? 'False' : 'True'})`), `write ${path}`);
+    }
+  }
+
+  /**
+   * Read a file from the kernel filesystem. Large files are read in chunks.
+   */
+  async readFile(path: string): Promise<Uint8Array<ArrayBuffer>> {
+    const chunks: Uint8Array[] = [];
+    let offset = 0;
+    while (true) {
+      const { data, size }: { data: string; size: number } = await this.runHelperScript(helperScript(`
+def __read_file(path, offset, length):
+    import base64, os
+    with open(path, 'rb') as file:
+        file.seek(offset)
+        data = file.read(length)
+    return {'data': base64.b64encode(data).decode('ascii'), 'size': os.path.getsize(path)}
+`, `__read_file(${JSON.stringify(path)}, ${offset}, ${FILE_CHUNK_SIZE})`), `read ${path}`);
+
+      const chunk = base64ToBytes(data);
+      chunks.push(chunk);
+      offset += chunk.length;
+      if (chunk.length === 0 || offset >= size) break;
+    }
+
+    const bytes = new Uint8Array(offset);
+    let position = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, position);
+      position += chunk.length;
+    }
+    return bytes;
+  }
+
+  /**
+   * Delete a file, or a directory with its content
+   */
+  async deleteFile(path: string): Promise<void> {
+    await this.runHelperScript(helperScript(`
+def __delete_file(path):
+    import os, shutil
+    if os.path.isdir(path) and not os.path.islink(path):
+        shutil.rmtree(path)
+    else:
+        os.remove(path)
+`, `__delete_file(${JSON.stringify(path)})`), `delete ${path}`);
+  }
+
+  /**
+   * Run a helper script without output to the terminal and parse the JSON it prints
+   * after RESULT_MARKER. A script still running after the timeout is interrupted.
+   */
+  private async runHelperScript<T>(code: string, action: string, timeoutMs: number = HELPER_TIMEOUT_MS): Promise<T> {
+    if (!this.kernelManager || !this.kernelId) {
+      throw new Error('Kernel not initialized');
+    }
+
+    let stdout = '';
+    let error = '';
+    const deadline = Date.now() + timeoutMs;
+    const stream = this.kernelManager.executeStream(this.kernelId, code);
+    const iterator: AsyncIterator<any> = stream[Symbol.asyncIterator]();
+    while (true) {
+      const next = await raceDeadline(iterator.next(), deadline);
+      if (next === TIMED_OUT) {
+        iterator.return?.().catch(() => {});
+        await this.kernelManager.interruptKernel(this.kernelId).catch(() => false);
+        throw new Error(`Failed to ${action}: timed out after ${Math.round(timeoutMs / 1000)}s`);
+      }
+      if (next.done) break;
+
+      const event = next.value;
+      if (event.type === 'stream' && event.data?.name === 'stdout') {
+        stdout += event.data.text;
+      } else if (event.type === 'error' || event.type === 'execute_error') {
+        error = `${event.data?.ename || 'Error'}: ${event.data?.evalue || 'Unknown error'}`;
+      }
+    }
+
+    const line = stdout.split('\n').find(text => text.startsWith(RESULT_MARKER));
+    if (!line) {
+      throw new Error(`Failed to ${action}${error ? `: ${error}` : ''}`);
+    }
+    return JSON.parse(line.substring(RESULT_MARKER.length));
+  }
+
+  /**
+   * Interrupt an execution that ran past its timeout. If the interrupt fails or the
+   * execution does not stop in time, the kernel is restarted.
+   * @param pending - The next() call that was still waiting when the deadline passed
+   */
+  private async handleTimeout(
+    iterator: AsyncIterator<any>,
+    pending: Promise<IteratorResult<any>>,
+    outputs: ExecutionEvent[],
+    timeoutMs: number
+  ): Promise<{ result: ExecutionResult; restarted: boolean }> {
+    const seconds = Math.round(timeoutMs / 1000);
+    this.onOutput(`⏱ Execution timed out after ${seconds}s, interrupting kernel...`, 'error');
+
+    let interrupted = false;
+    try {
+      interrupted = await this.kernelManager!.interruptKernel(this.kernelId!);
+    } catch (error) {
+      console.error('Failed to interrupt kernel after timeout:', error);
+    }
+
+    // Collect what the execution reports while it stops (usually a KeyboardInterrupt)
+    let stopped = false;
+    if (interrupted) {
+      const graceDeadline = Date.now() + INTERRUPT_GRACE_MS;
+      while (true) {
+        const next = await raceDeadline(pending, graceDeadline);
+        if (next === TIMED_OUT) break;
+        if (next.done) {
+          stopped = true;
+          break;
+        }
+        outputs.push(next.value);
+        this.outputExecutionEvent(next.value);
+        pending = iterator.next();
+      }
+    }
+
+    let error = `Execution timed out after ${seconds}s and was interrupted.`;
+    let restarted = false;
+    if (!stopped) {
+      this.onOutput('⚠ Interrupt did not stop the execution, restarting kernel', 'error');
+      iterator.return?.().catch(() => {});
+      try {
+        await this.restartKernel();
+        restarted = true;
+        error = `Execution timed out after ${seconds}s. The kernel was restarted, so all variables and imports were lost.`;
+      } catch (restartError) {
+        error = `Execution timed out after ${seconds}s and the kernel could not be restarted: ${(restartError as Error).message}`;
+      }
+    }
+
+    return {
+      result: {
+        success: false,
+        outputs,
+        error,
+        timedOut: true
+      },
+      restarted
+    };
+  }
+
+  /**
+   * Send an execution event to the terminal. Returns true for error events.
+   */
+  private outputExecutionEvent(event: any): boolean {
+    if (event.type === 'stream') {
+      if (event.data?.name === 'stdout') {
+        // Split by newlines and output non-empty lines
+        const lines = event.data.text.split('\n').filter((line: string) => line.trim());
+        lines.forEach((line: string) => this.onOutput(line, 'stdout'));
+      } else if (event.data?.name === 'stderr') {
+        const lines = event.data.text.split('\n').filter((line: string) => line.trim());
+        lines.forEach((line: string) => this.onOutput(line, 'stderr'));
+      }
+    } else if (event.type === 'execute_result' || event.type === 'display_data') {
+      this.outputDisplayData(event.data);
+    } else if (event.type === 'error' || event.type === 'execute_error') {
+      const errorMsg = `${event.data?.ename || 'Error'}: ${event.data?.evalue || 'Unknown error'}`;
+      this.onOutput(errorMsg, 'error');
+
+      if (event.data?.traceback) {
+        event.data.traceback.forEach((line: string) => {
+          if (line.trim()) {
+            // Strip ANSI escape codes from traceback
+            const cleanLine = this.stripAnsi(line);
+            this.onOutput(cleanLine, 'error');
+          }
+        });
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Send a display output to the terminal. Bundles with more than plain text are passed on
+   * as JSON with the 'display' type so the terminal can render the richest representation.
+   */
+  private outputDisplayData(data: any): void {
+    const bundle: Record<string, any> = data?.data ?? {};
+    const richTypes = Object.keys(bundle).filter(mimeType => mimeType !== 'text/plain');
+    if (richTypes.length > 0) {
+      this.onOutput(JSON.stringify({ data: bundle, metadata: data?.metadata ?? {} }), 'display');
+    } else if (bundle['text/plain']) {
+      const result = String(bundle['text/plain']).trim();
+      if (result) this.onOutput(result, 'result');
     }
   }
 
@@ -254,9 +733,11 @@ export class KernelManager {
 
       // Run startup script
       await this.executeStartupScript();
+      await this.installPackages();
 
       this.onStatusChange('ready', 'Kernel ready');
       this.onOutput('✓ Kernel restarted successfully');
+      this.notifyExecutionListeners(true);
     } catch (error) {
       const errorMsg = `Failed to restart kernel: ${(error as Error).message}`;
       this.onStatusChange('error', errorMsg);
@@ -283,6 +764,17 @@ export class KernelManager {
     }
   }
 
+  /**
+   * Destroy the kernel (used for separate kernels of child agents)
+   */
+  async shutdown(): Promise<void> {
+    if (!this.kernelManager || !this.kernelId) {
+      return;
+    }
+    await this.kernelManager.destroyKernel(this.kernelId);
+    this.kernelId = null;
+  }
+
   getKernelId(): string | null {
     return this.kernelId;
   }
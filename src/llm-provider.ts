@@ -0,0 +1,432 @@
+// LLM Provider Abstraction
+// Messages and tools use the OpenAI chat format internally. Each backend converts
+// to its own protocol and streams back OpenAI-shaped chunks, so the agent loop
+// does not need to know which backend it is talking to.
+import OpenAI from 'openai';
+import { getProviderDefaults, type AgentSettings } from './settings';
+import { MockProvider } from './mock-provider';
+
+export type LLMProviderType = 'openai' | 'ollama' | 'custom' | 'anthropic' | 'mock';
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * A streamed chunk in OpenAI chat.completion.chunk shape
+ */
+export interface LLMChunk {
+  choices: Array<{
+    index: number;
+    delta: any;
+    finish_reason?: string | null;
+  }>;
+  usage?: LLMUsage | null;
+}
+
+export interface LLMChatRequest {
+  model: string;
+  messages: any[]; // OpenAI chat format
+  tools?: any[]; // OpenAI function tool format
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  message: {
+    role: 'assistant';
+    content: string | null;
+    tool_calls?: any[];
+  };
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  // Stream a chat completion as OpenAI-shaped chunks (usage, if any, arrives in a chunk without choices)
+  streamChat(request: LLMChatRequest): AsyncIterable<LLMChunk>;
+  // Non-streaming chat completion
+  complete(request: LLMChatRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * Backend for OpenAI and OpenAI-compatible endpoints (Ollama, vLLM, proxies...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type: LLMProviderType;
+  private client: OpenAI;
+
+  constructor(type: LLMProviderType, baseUrl: string, apiKey: string) {
+    this.type = type;
+    this.client = new OpenAI({
+      baseURL: baseUrl,
+      apiKey: apiKey,
+      maxRetries: 0, // Retries are handled by the agent so they can be reported and fall back
+      dangerouslyAllowBrowser: true // Required for browser usage
+    });
+  }
+
+  async *streamChat(request: LLMChatRequest): AsyncIterable<LLMChunk> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      ...(request.tools && request.tools.length > 0 && { tools: request.tools }),
+      stream: true,
+      stream_options: { include_usage: true }, // Usage arrives in a final chunk without choices
+      temperature: request.temperature
+    }, { signal: request.signal });
+
+    for await (const chunk of response) {
+      yield chunk as LLMChunk;
+    }
+  }
+
+  async complete(request: LLMChatRequest): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      ...(request.tools && request.tools.length > 0 && { tools: request.tools }),
+      temperature: request.temperature
+    }, { signal: request.signal });
+
+    const message = response.choices[0]?.message;
+    return {
+      message: {
+        role: 'assistant',
+        content: message?.content ?? null,
+        ...(message?.tool_calls && { tool_calls: message.tool_calls })
+      },
+      usage: response.usage as LLMUsage | undefined
+    };
+  }
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 8192;
+
+/**
+ * Backend for the native Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'anthropic';
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(baseUrl: string, apiKey: string) {
+    this.baseUrl = (baseUrl || 'https://api.anthropic.com/v1/').replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  async *streamChat(request: LLMChatRequest): AsyncIterable<LLMChunk> {
+    const response = await this.post({ ...this.buildBody(request), stream: true }, request.signal);
+    if (!response.body) {
+      throw new Error('Anthropic response has no body');
+    }
+
+    // Map Anthropic content block index -> OpenAI tool_calls index
+    const toolIndexByBlock = new Map<number, number>();
+    const usage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    for await (const event of this.readServerSentEvents(response.body)) {
+      switch (event.type) {
+        case 'message_start': {
+          const startUsage = event.message?.usage;
+          if (startUsage) {
+            usage.prompt_tokens = (startUsage.input_tokens || 0)
+              + (startUsage.cache_read_input_tokens || 0)
+              + (startUsage.cache_creation_input_tokens || 0);
+            usage.completion_tokens = startUsage.output_tokens || 0;
+          }
+          break;
+        }
+        case 'content_block_start': {
+          const block = event.content_block;
+          if (block?.type === 'tool_use') {
+            const toolIndex = toolIndexByBlock.size;
+            toolIndexByBlock.set(event.index, toolIndex);
+            yield {
+              choices: [{
+                index: 0,
+                delta: {
+                  tool_calls: [{
+                    index: toolIndex,
+                    id: block.id,
+                    type: 'function',
+                    function: { name: block.name, arguments: '' }
+                  }]
+                }
+              }]
+            };
+          }
+          break;
+        }
+        case 'content_block_delta': {
+          const delta = event.delta;
+          if (delta?.type === 'text_delta') {
+            yield { choices: [{ index: 0, delta: { content: delta.text } }] };
+          } else if (delta?.type === 'thinking_delta') {
+            yield { choices: [{ index: 0, delta: { reasoning_content: delta.thinking } }] };
+          } else if (delta?.type === 'input_json_delta' && toolIndexByBlock.has(event.index)) {
+            yield {
+              choices: [{
+                index: 0,
+                delta: {
+                  tool_calls: [{
+                    index: toolIndexByBlock.get(event.index),
+                    function: { arguments: delta.partial_json }
+                  }]
+                }
+              }]
+            };
+          }
+          break;
+        }
+        case 'message_delta': {
+          if (event.usage?.output_tokens !== undefined) {
+            usage.completion_tokens = event.usage.output_tokens;
+          }
+          if (event.delta?.stop_reason) {
+            yield {
+              choices: [{
+                index: 0,
+                delta: {},
+                finish_reason: event.delta.stop_reason === 'tool_use' ? 'tool_calls' : 'stop'
+              }]
+            };
+          }
+          break;
+        }
+        case 'error': {
+          const error = new Error(`Anthropic stream error: ${event.error?.message || 'Unknown error'}`);
+          // Overloaded errors mid-stream are transient, tag them like the HTTP 529 response
+          throw event.error?.type === 'overloaded_error' ? Object.assign(error, { status: 529 }) : error;
+        }
+      }
+    }
+
+    usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
+    yield { choices: [], usage };
+  }
+
+  async complete(request: LLMChatRequest): Promise<LLMCompletion> {
+    const response = await this.post(this.buildBody(request), request.signal);
+    const data = await response.json();
+
+    let content = '';
+    const toolCalls: any[] = [];
+    for (const block of data.content || []) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+        });
+      }
+    }
+
+    const promptTokens = data.usage?.input_tokens || 0;
+    const completionTokens = data.usage?.output_tokens || 0;
+    return {
+      message: {
+        role: 'assistant',
+        content: content || null,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls })
+      },
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  private async post(body: any, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true' // Required for browser usage
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      let detail = response.statusText;
+      try {
+        const errorBody = await response.json();
+        detail = errorBody.error?.message || detail;
+      } catch {
+        // Keep status text
+      }
+      // Match the shape of OpenAI SDK errors (status + headers)
+      throw Object.assign(new Error(`${response.status} ${detail}`), {
+        status: response.status,
+        headers: response.headers
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Convert an OpenAI-format request into an Anthropic Messages request body
+   */
+  private buildBody(request: LLMChatRequest): any {
+    const systemParts: string[] = [];
+    const messages: any[] = [];
+
+    const pushMessage = (role: 'user' | 'assistant', blocks: any[]) => {
+      if (blocks.length === 0) return;
+      // Anthropic requires alternating roles, so merge consecutive messages of the same role
+      const last = messages[messages.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...blocks);
+      } else {
+        messages.push({ role, content: blocks });
+      }
+    };
+
+    for (const message of request.messages) {
+      if (message.role === 'system') {
+        systemParts.push(typeof message.content === 'string' ? message.content : this.textOf(message.content));
+      } else if (message.role === 'user') {
+        pushMessage('user', this.toContentBlocks(message.content));
+      } else if (message.role === 'assistant') {
+        const blocks = this.toContentBlocks(message.content);
+        for (const toolCall of message.tool_calls || []) {
+          let input: any = {};
+          try {
+            input = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+          } catch {
+            input = { _raw: toolCall.function.arguments };
+          }
+          blocks.push({ type: 'tool_use', id: toolCall.id, name: toolCall.function.name, input });
+        }
+        pushMessage('assistant', blocks);
+      } else if (message.role === 'tool') {
+        pushMessage('user', [{
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id,
+          content: typeof message.content === 'string' ? message.content : this.textOf(message.content)
+        }]);
+      }
+    }
+
+    return {
+      model: request.model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      ...(systemParts.length > 0 && { system: systemParts.join('\n\n') }),
+      messages,
+      ...(request.temperature !== undefined && { temperature: Math.min(1, request.temperature) }),
+      ...(request.tools && request.tools.length > 0 && {
+        tools: request.tools.map((tool: any) => ({
+          name: tool.function.name,
+          description: tool.function.description,
+          input_schema: tool.function.parameters || { type: 'object', properties: {} }
+        }))
+      })
+    };
+  }
+
+  private toContentBlocks(content: any): any[] {
+    if (typeof content === 'string') {
+      return content ? [{ type: 'text', text: content }] : [];
+    }
+    if (!Array.isArray(content)) {
+      return [];
+    }
+
+    return content.map((part: any) => {
+      if (part.type === 'image_url') {
+        const match = /^data:([^;]+);base64,(.*)$/.exec(part.image_url.url);
+        return match
+          ? { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+          : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+      }
+      return { type: 'text', text: part.text };
+    });
+  }
+
+  private textOf(content: any): string {
+    if (!Array.isArray(content)) return String(content ?? '');
+    return content.filter((part: any) => part.type === 'text').map((part: any) => part.text).join('\n');
+  }
+
+  /**
+   * Parse a server-sent events stream into JSON event payloads
+   */
+  private async *readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<any> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let separator: number;
+        while ((separator = buffer.indexOf('\n\n')) !== -1) {
+          const rawEvent = buffer.substring(0, separator);
+          buffer = buffer.substring(separator + 2);
+
+          const data = rawEvent
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.substring(5).trim())
+            .join('');
+          if (data) {
+            yield JSON.parse(data);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
+
+/**
+ * Create the LLM provider for the configured backend
+ */
+export function createLLMProvider(settings: AgentSettings): LLMProvider {
+  switch (settings.openaiProvider) {
+    case 'anthropic':
+      return new AnthropicProvider(settings.openaiBaseUrl, settings.openaiApiKey);
+    case 'mock':
+      return new MockProvider(settings.mockScript || '');
+    default:
+      return new OpenAICompatibleProvider(settings.openaiProvider, settings.openaiBaseUrl, settings.openaiApiKey);
+  }
+}
+
+/**
+ * Create the fallback provider used once retries are exhausted, or null when no
+ * fallback model is configured. Empty fallback fields reuse the primary settings,
+ * except that a different provider gets its own default endpoint.
+ */
+export function createFallbackProvider(settings: AgentSettings): LLMProvider | null {
+  if (!settings.fallbackModel) {
+    return null;
+  }
+
+  const provider = settings.fallbackProvider || settings.openaiProvider;
+  const defaultBaseUrl = provider === settings.openaiProvider
+    ? settings.openaiBaseUrl
+    : getProviderDefaults(provider).openaiBaseUrl ?? '';
+  return createLLMProvider({
+    ...settings,
+    openaiProvider: provider,
+    openaiBaseUrl: settings.fallbackBaseUrl || defaultBaseUrl,
+    openaiApiKey: settings.fallbackApiKey || settings.openaiApiKey,
+    openaiModel: settings.fallbackModel
+  });
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { codeSimilarity, getErrorSignature, LoopDetector } from './loop-detector';
+
+const NAME_ERROR = "Traceback (most recent call last):\n  File \"<exec>\", line 1, in <module>\nNameError: name 'df' is not defined";
+
+// Unrelated code, so only the errors repeat
+const DIFFERENT_CODE = [
+  'print(df.head())',
+  'summary = df.describe()\nprint(summary)',
+  'import matplotlib.pyplot as plt\nplt.plot(df["x"])',
+  'for column in df.columns:\n    print(column)',
+  'total = sum(values) / len(values)'
+];
+
+/**
+ * Record one attempt and return the detector's verdict
+ */
+function attempt(detector: LoopDetector, code: string, success: boolean, output: string = '') {
+  detector.record(code, success, output);
+  return detector.evaluate();
+}
+
+describe('getErrorSignature', () => {
+  it('takes the last exception line of a traceback', () => {
+    expect(getErrorSignature(NAME_ERROR)).toBe("NameError: name 'df' is not defined");
+  });
+
+  it('falls back to the first line', () => {
+    expect(getErrorSignature('\nsomething went wrong\nmore details')).toBe('something went wrong');
+  });
+});
+
+describe('codeSimilarity', () => {
+  it('is 1 for identical and 0 for unrelated code', () => {
+    expect(codeSimilarity('print(x)', 'print(x)')).toBe(1);
+    expect(codeSimilarity('abc', 'xyz')).toBe(0);
+  });
+
+  it('is high for small edits', () => {
+    expect(codeSimilarity('df = pd.read_csv("data.csv")\nprint(df.shape)', 'df = pd.read_csv("data.csv")\nprint(df.shape) ')).toBeGreaterThan(0.9);
+  });
+});
+
+describe('LoopDetector', () => {
+  it('guides after 2 identical errors and stops after 2 more', () => {
+    const detector = new LoopDetector();
+
+    expect(attempt(detector, DIFFERENT_CODE[0], false, NAME_ERROR)).toBeNull();
+
+    const guide = attempt(detector, DIFFERENT_CODE[1], false, NAME_ERROR);
+    expect(guide).toMatchObject({ action: 'guide', kind: 'repeated_error', count: 2 });
+    expect(guide!.message).toContain('list_variables'); // NameError advice
+
+    expect(attempt(detector, DIFFERENT_CODE[2], false, NAME_ERROR)).toBeNull();
+
+    const stop = attempt(detector, DIFFERENT_CODE[3], false, NAME_ERROR);
+    expect(stop).toMatchObject({ action: 'stop', kind: 'repeated_error', count: 4 });
+  });
+
+  it('guides after 3 near-duplicate submissions and stops after 2 more', () => {
+    const detector = new LoopDetector();
+    const code = 'import numpy as np\nprint(np.mean([1, 2, 3]))';
+
+    expect(attempt(detector, code, true)).toBeNull();
+    expect(attempt(detector, `${code}  # again`, true)).toBeNull();
+    expect(attempt(detector, code, true)).toMatchObject({ action: 'guide', kind: 'duplicate_code', count: 3 });
+    expect(attempt(detector, code, true)).toBeNull();
+    expect(attempt(detector, code, true)).toMatchObject({ action: 'stop', kind: 'duplicate_code', count: 5 });
+  });
+
+  it('reports repeated errors before duplicate code', () => {
+    const detector = new LoopDetector();
+
+    attempt(detector, 'print(df)', false, NAME_ERROR);
+    expect(attempt(detector, 'print(df)', false, NAME_ERROR)).toMatchObject({ action: 'guide', kind: 'repeated_error' });
+  });
+
+  it('does not count different errors as a streak', () => {
+    const detector = new LoopDetector();
+
+    attempt(detector, DIFFERENT_CODE[0], false, NAME_ERROR);
+    expect(attempt(detector, DIFFERENT_CODE[1], false, "KeyError: 'x'")).toBeNull();
+    expect(attempt(detector, DIFFERENT_CODE[2], false, 'ZeroDivisionError: division by zero')).toBeNull();
+  });
+
+  it('guides again instead of stopping once a streak was broken', () => {
+    const detector = new LoopDetector();
+
+    attempt(detector, DIFFERENT_CODE[0], false, NAME_ERROR);
+    expect(attempt(detector, DIFFERENT_CODE[1], false, NAME_ERROR)).toMatchObject({ action: 'guide' });
+    expect(attempt(detector, DIFFERENT_CODE[2], true)).toBeNull();
+
+    attempt(detector, DIFFERENT_CODE[3], false, NAME_ERROR);
+    expect(attempt(detector, DIFFERENT_CODE[4], false, NAME_ERROR)).toMatchObject({ action: 'guide', count: 2 });
+  });
+
+  it('forgets earlier attempts on reset', () => {
+    const detector = new LoopDetector();
+
+    attempt(detector, DIFFERENT_CODE[0], false, NAME_ERROR);
+    detector.reset();
+    expect(attempt(detector, DIFFERENT_CODE[1], false, NAME_ERROR)).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+// Repeated-Failure Loop Detection
+// Watches the code the agent executes during a React loop. When the same error keeps
+// coming back, or the model resubmits (nearly) the same code, the loop first gets
+// targeted recovery guidance and is stopped early if the repetition continues.
+
+// Consecutive identical errors before recovery guidance is injected
+const REPEATED_ERROR_THRESHOLD = 2;
+// Consecutive near-duplicate code submissions before recovery guidance is injected
+const DUPLICATE_CODE_THRESHOLD = 3;
+// Further repetitions after the guidance before the loop is stopped
+const REPETITIONS_BEFORE_STOP = 2;
+// Similarity (0-1) above which two code submissions count as near-duplicates
+const DUPLICATE_SIMILARITY = 0.9;
+
+export interface LoopFinding {
+  action: 'guide' | 'stop';
+  kind: 'repeated_error' | 'duplicate_code';
+  count: number; // Length of the current streak
+  message: string; // Guidance for the model, or the reason for stopping
+}
+
+interface Attempt {
+  code: string; // Normalized code
+  error: string | null; // Error signature, e.g. "NameError: name 'df' is not defined"
+}
+
+/**
+ * Extract the error signature ("ExceptionName: message") from a failed execution's output
+ */
+export function getErrorSignature(output: string): string {
+  const matches = [...output.matchAll(/^(\w+(?:Error|Exception|Interrupt)\b.*)$/gm)];
+  const line = matches.length > 0 ? matches[matches.length - 1][1] : output.trim().split('\n')[0] ?? '';
+  return line.trim().substring(0, 200);
+}
+
+/**
+ * Similarity of two strings (Dice coefficient over character bigrams)
+ */
+export function codeSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+/**
+ * Strip comments and whitespace differences so cosmetic edits do not hide a repeat
+ */
+function normalizeCode(code: string): string {
+  return code
+    .split('\n')
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Recovery advice for a repeated error
+ */
+function getErrorGuidance(error: string): string {
+  if (/^(ModuleNotFoundError|ImportError)/.test(error)) {
+    return 'A package is missing. Install it first with `import micropip; await micropip.install("<package>")` (the PyPI name may differ from the import name), or use a library that is already available.';
+  }
+  if (/^(NameError|UnboundLocalError)/.test(error)) {
+    return 'A name is not defined in the kernel. Inspect what exists with the list_variables tool and re-create the missing variable, import or function before using it.';
+  }
+  if (/^(AttributeError|TypeError|KeyError|IndexError|ValueError)/.test(error)) {
+    return 'The data does not have the shape you assume. Inspect it before using it, e.g. `print(type(x))`, `print(dir(x))`, `print(x.keys())`, `print(df.columns)` or `print(df.head())`.';
+  }
+  if (/^(SyntaxError|IndentationError)/.test(error)) {
+    return 'The code does not parse. Rewrite it in smaller, simpler pieces and check quoting and indentation.';
+  }
+  return 'Do not resubmit the same code. Read the error carefully and try a fundamentally different approach, or check your assumptions by inspecting the relevant variables first.';
+}
+
+export class LoopDetector {
+  private attempts: Attempt[] = [];
+  private guidedStreak: { kind: LoopFinding['kind']; count: number } | null = null;
+
+  reset(): void {
+    this.attempts = [];
+    this.guidedStreak = null;
+  }
+
+  /**
+   * Record an executeCode call and its result
+   */
+  record(code: string, success: boolean, output: string): void {
+    this.attempts.push({ code: normalizeCode(code), error: success ? null : getErrorSignature(output) });
+  }
+
+  /**
+   * Check the attempts so far. Returns guidance when a streak reaches its threshold,
+   * a stop when it continues after the guidance, and null otherwise.
+   */
+  evaluate(): LoopFinding | null {
+    const errorStreak = this.countRepeatedErrors();
+    const duplicateStreak = this.countDuplicateCode();
+
+    let kind: LoopFinding['kind'] | null = null;
+    let count = 0;
+    if (errorStreak >= REPEATED_ERROR_THRESHOLD) {
+      kind = 'repeated_error';
+      count = errorStreak;
+    } else if (duplicateStreak >= DUPLICATE_CODE_THRESHOLD) {
+      kind = 'duplicate_code';
+      count = duplicateStreak;
+    }
+
+    if (!kind) {
+      this.guidedStreak = null; // The streak was broken
+      return null;
+    }
+
+    const last = this.attempts[this.attempts.length - 1];
+    if (!this.guidedStreak || this.guidedStreak.kind !== kind || count < this.guidedStreak.count) {
+      this.guidedStreak = { kind, count };
+      return { action: 'guide', kind, count, message: this.getGuidance(kind, count, last.error) };
+    }
+
+    if (count - this.guidedStreak.count >= REPETITIONS_BEFORE_STOP) {
+      const what = kind === 'repeated_error'
+        ? `the same error (${last.error}) occurred ${count} times in a row`
+        : `nearly the same code was submitted ${count} times in a row`;
+      return { action: 'stop', kind, count, message: `Stopped early: ${what}, even after recovery guidance.` };
+    }
+    return null;
+  }
+
+  private getGuidance(kind: LoopFinding['kind'], count: number, error: string | null): string {
+    if (kind === 'repeated_error') {
+      return `⚠ Loop detected: the last ${count} executions failed with the same error (${error}). ${getErrorGuidance(error ?? '')} If you cannot make progress, call final_answer and explain what is blocking you.`;
+    }
+    return `⚠ Loop detected: you submitted nearly the same code ${count} times in a row. Running it again will not give a different result. ${error ? getErrorGuidance(error) : 'Move on to the next step of your plan, or finish with final_answer if the task is done.'}`;
+  }
+
+  private countRepeatedErrors(): number {
+    const last = this.attempts[this.attempts.length - 1];
+    if (!last?.error) return 0;
+    let count = 0;
+    for (let i = this.attempts.length - 1; i >= 0 && this.attempts[i].error === last.error; i--) {
+      count++;
+    }
+    return count;
+  }
+
+  private countDuplicateCode(): number {
+    const last = this.attempts[this.attempts.length - 1];
+    if (!last) return 0;
+    let count = 0;
+    for (let i = this.attempts.length - 1; i >= 0 && codeSimilarity(this.attempts[i].code, last.code) >= DUPLICATE_SIMILARITY; i--) {
+      count++;
+    }
+    return count;
+  }
+}
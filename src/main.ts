@@ -1,9 +1,17 @@
 // Hypha Code Agent - Main Entry Point
 import { settingsManager } from './settings';
-import { KernelManager } from './kernel';
+import { KernelManager, WORKING_DIRECTORY, type KernelFile, type NamespaceVariable } from './kernel';
 import { AgentManager } from './agent';
+import type { LLMProviderType } from './llm-provider';
+import { downloadCassette, parseCassette } from './cassette';
+import type { ApprovalPolicy } from './approval';
+import type { ToolProtocol } from './text-tool-protocol';
 import { HyphaService } from './hypha-service';
-import { TerminalRenderer, detectContentType } from './terminal-ui';
+import { sessionStore, createSession, downloadSession, toSessionSettings, type ChatSession } from './session-store';
+import { PLAN_STATUS_ICONS, countFinishedSteps, type PlanStep } from './plan';
+import type { TranscriptEntry } from './conversation-tree';
+import { emptyUsageTotals, formatUsage, type UsageTotals } from './usage';
+import { TerminalRenderer, createAgentEventRenderer, detectContentType } from './terminal-ui';
 import { parseUrlParams, fetchAgentArtifact, generateSystemPromptFromScript, type AgentArtifact } from './url-params';
 
 console.log('Hypha Code Agent initializing...');
@@ -21,10 +29,22 @@ let kernelManager: KernelManager | null = null;
 let agentManager: AgentManager | null = null;
 // Hypha service instance
 let hyphaService: HyphaService | null = null;
+// Saved chat session the terminal is currently recording into (created on the first query)
+let currentSession: ChatSession | null = null;
+// Output of a query whose turn has not been created yet, moved into the turn once it exists
+let pendingTurnTranscript: TranscriptEntry[] | null = null;
+// JSON schema the final answer of agent queries must match (set with /schema)
+let resultSchema: any | null = null;
 
 // Get DOM elements
 const statusDot = document.getElementById('statusDot') as HTMLElement;
 const statusText = document.getElementById('statusText') as HTMLElement;
+const usageText = document.getElementById('usageText') as HTMLElement;
+const planPanel = document.getElementById('planPanel') as HTMLElement;
+const planHeader = document.getElementById('planHeader') as HTMLElement;
+const planTitle = document.getElementById('planTitle') as HTMLElement;
+const planToggle = document.getElementById('planToggle') as HTMLElement;
+const planSteps = document.getElementById('planSteps') as HTMLOListElement;
 const terminalOutput = document.getElementById('terminalOutput') as HTMLElement;
 const terminalInput = document.getElementById('terminalInput') as HTMLInputElement;
 const connectBtn = document.getElementById('connectBtn') as HTMLButtonElement;
@@ -33,6 +53,31 @@ const clearBtn = document.getElementById('clearBtn') as HTMLButtonElement;
 const settingsBtn = document.getElementById('settingsBtn') as HTMLButtonElement;
 const scriptModeBtn = document.getElementById('scriptModeBtn') as HTMLButtonElement;
 const queryModeBtn = document.getElementById('queryModeBtn') as HTMLButtonElement;
+const stopBtn = document.getElementById('stopBtn') as HTMLButtonElement;
+const recordBtn = document.getElementById('recordBtn') as HTMLButtonElement;
+const replayBtn = document.getElementById('replayBtn') as HTMLButtonElement;
+const replayFileInput = document.getElementById('replayFileInput') as HTMLInputElement;
+const sessionsBtn = document.getElementById('sessionsBtn') as HTMLButtonElement;
+const sessionsModal = document.getElementById('sessionsModal') as HTMLElement;
+const closeSessionsBtn = document.getElementById('closeSessionsBtn') as HTMLButtonElement;
+const closeSessionsBtn2 = document.getElementById('closeSessionsBtn2') as HTMLButtonElement;
+const newSessionBtn = document.getElementById('newSessionBtn') as HTMLButtonElement;
+const sessionSearchInput = document.getElementById('sessionSearch') as HTMLInputElement;
+const sessionsList = document.getElementById('sessionsList') as HTMLElement;
+const variablesBtn = document.getElementById('variablesBtn') as HTMLButtonElement;
+const variablesPanel = document.getElementById('variablesPanel') as HTMLElement;
+const variablesTitle = document.getElementById('variablesTitle') as HTMLElement;
+const variablesList = document.getElementById('variablesList') as HTMLElement;
+const refreshVariablesBtn = document.getElementById('refreshVariablesBtn') as HTMLButtonElement;
+const filesBtn = document.getElementById('filesBtn') as HTMLButtonElement;
+const filesPanel = document.getElementById('filesPanel') as HTMLElement;
+const filesTitle = document.getElementById('filesTitle') as HTMLElement;
+const filesList = document.getElementById('filesList') as HTMLElement;
+const filePreview = document.getElementById('filePreview') as HTMLElement;
+const uploadFilesBtn = document.getElementById('uploadFilesBtn') as HTMLButtonElement;
+const refreshFilesBtn = document.getElementById('refreshFilesBtn') as HTMLButtonElement;
+const uploadFileInput = document.getElementById('uploadFileInput') as HTMLInputElement;
+const workspace = document.querySelector('.workspace') as HTMLElement;
 
 // Initialize terminal renderer
 const terminalRenderer = new TerminalRenderer(terminalOutput);
@@ -61,6 +106,24 @@ const openaiApiKeyInput = document.getElementById('openaiApiKey') as HTMLInputEl
 const hyphaServerUrlInput = document.getElementById('hyphaServerUrl') as HTMLInputElement;
 const hyphaWorkspaceInput = document.getElementById('hyphaWorkspace') as HTMLInputElement;
 const maxStepsInput = document.getElementById('maxSteps') as HTMLInputElement;
+const approvalPolicySelect = document.getElementById('approvalPolicy') as HTMLSelectElement;
+const mockScriptGroup = document.getElementById('mockScriptGroup') as HTMLElement;
+const mockScriptInput = document.getElementById('mockScript') as HTMLTextAreaElement;
+const mockScriptFileInput = document.getElementById('mockScriptFile') as HTMLInputElement;
+const maxRetriesInput = document.getElementById('maxRetries') as HTMLInputElement;
+const fallbackModelInput = document.getElementById('fallbackModel') as HTMLInputElement;
+const fallbackProviderSelect = document.getElementById('fallbackProvider') as HTMLSelectElement;
+const fallbackBaseUrlInput = document.getElementById('fallbackBaseUrl') as HTMLInputElement;
+const fallbackApiKeyInput = document.getElementById('fallbackApiKey') as HTMLInputElement;
+const contextTokenBudgetInput = document.getElementById('contextTokenBudget') as HTMLInputElement;
+const executionTimeoutInput = document.getElementById('executionTimeout') as HTMLInputElement;
+const packagesInput = document.getElementById('packages') as HTMLInputElement;
+const toolProtocolSelect = document.getElementById('toolProtocol') as HTMLSelectElement;
+const textToolModelsInput = document.getElementById('textToolModels') as HTMLInputElement;
+const visionEnabledSelect = document.getElementById('visionEnabled') as HTMLSelectElement;
+const visionMaxImageSizeInput = document.getElementById('visionMaxImageSize') as HTMLInputElement;
+const showReasoningSelect = document.getElementById('showReasoning') as HTMLSelectElement;
+const modelPricesInput = document.getElementById('modelPrices') as HTMLTextAreaElement;
 
 // Update status
 function updateStatus(status: 'ready' | 'busy' | 'error', text: string) {
@@ -69,8 +132,58 @@ function updateStatus(status: 'ready' | 'busy' | 'error', text: string) {
   statusText.textContent = text;
 }
 
-// Add terminal output with enhanced rendering
+// Transcript the terminal output is recorded into: the head turn of the conversation,
+// or the session preamble before the first turn
+function getActiveTranscript(): TranscriptEntry[] | null {
+  if (!currentSession) return null;
+  if (pendingTurnTranscript) return pendingTurnTranscript;
+  return agentManager?.getConversationTree().getHead()?.transcript ?? currentSession.preamble;
+}
+
+// Add terminal output with enhanced rendering and record it in the current session
 function addOutput(text: string, type: string = 'info', append: boolean = false) {
+  const transcript = getActiveTranscript();
+  if (type === 'discard-line') {
+    transcript?.pop();
+    terminalRenderer.removeLastLine();
+    return;
+  }
+  if (transcript) {
+    // Streamed chunks are merged into the line they extend
+    if (append && transcript.length > 0) {
+      transcript[transcript.length - 1].content += text;
+    } else {
+      transcript.push({ content: text, type });
+    }
+  }
+  renderOutput(text, type, append);
+}
+
+function renderOutput(text: string, type: string = 'info', append: boolean = false) {
+  // Collapsible groups (child agent transcripts)
+  if (type === 'group-start') {
+    terminalRenderer.beginGroup(text);
+    return;
+  }
+  if (type === 'group-end') {
+    terminalRenderer.endGroup();
+    return;
+  }
+  if (type === 'thinking') {
+    terminalRenderer.renderThinking(text, append);
+    return;
+  }
+  // Rich kernel outputs: a JSON-encoded MIME bundle
+  if (type === 'display') {
+    try {
+      const { data, metadata } = JSON.parse(text);
+      terminalRenderer.renderMimeBundle(data ?? {}, metadata ?? {});
+    } catch (error) {
+      console.error('Failed to render display output:', error);
+    }
+    return;
+  }
+
   // Detect content type for better rendering
   let renderType: 'info' | 'error' | 'stderr' | 'stdout' | 'result' | 'assistant' | 'execution' | 'code' | 'markdown' = type as any;
 
@@ -91,6 +204,30 @@ function addOutput(text: string, type: string = 'info', append: boolean = false)
   }, append);
 }
 
+// Thinking blocks stay in the terminal and are hidden with CSS, so toggling the setting applies to past output too
+function applyReasoningVisibility() {
+  terminalOutput.classList.toggle('hide-reasoning', !settingsManager.getSettings().showReasoning);
+}
+applyReasoningVisibility();
+
+// Packages preloaded into the kernel: the settings list plus the agent artifact's list
+function getPreloadPackages(): string[] {
+  return [...settingsManager.getSettings().packages, ...(agentArtifact?.manifest.packages ?? [])];
+}
+
+// Install packages added in settings right away; the full list is re-applied on every restart
+function applyPackages() {
+  if (!kernelManager?.isInitialized()) {
+    return;
+  }
+  const previous = new Set(kernelManager.getPackages());
+  kernelManager.setPackages(getPreloadPackages());
+  if (kernelManager.getPackages().some(requirement => !previous.has(requirement))) {
+    kernelManager.installPackages()
+      .catch(error => addOutput(`✗ Failed to install packages: ${(error as Error).message}`, 'error'));
+  }
+}
+
 // Clear terminal
 clearBtn.addEventListener('click', () => {
   terminalRenderer.clear();
@@ -106,9 +243,26 @@ function showSettingsDialog() {
   openaiBaseUrlInput.value = settings.openaiBaseUrl;
   openaiModelInput.value = settings.openaiModel;
   openaiApiKeyInput.value = settings.openaiApiKey;
+  mockScriptInput.value = settings.mockScript || '';
+  mockScriptGroup.style.display = settings.openaiProvider === 'mock' ? 'block' : 'none';
+  maxRetriesInput.value = settings.maxRetries.toString();
+  fallbackModelInput.value = settings.fallbackModel || '';
+  fallbackProviderSelect.value = settings.fallbackProvider || '';
+  fallbackBaseUrlInput.value = settings.fallbackBaseUrl || '';
+  fallbackApiKeyInput.value = settings.fallbackApiKey || '';
   hyphaServerUrlInput.value = settings.hyphaServerUrl;
   hyphaWorkspaceInput.value = settings.hyphaWorkspace;
   maxStepsInput.value = settings.maxSteps.toString();
+  approvalPolicySelect.value = settings.approvalPolicy;
+  contextTokenBudgetInput.value = settings.contextTokenBudget.toString();
+  executionTimeoutInput.value = settings.executionTimeout.toString();
+  packagesInput.value = settings.packages.join(', ');
+  toolProtocolSelect.value = settings.toolProtocol;
+  textToolModelsInput.value = settings.textToolModels.join(', ');
+  visionEnabledSelect.value = settings.visionEnabled ? 'true' : 'false';
+  showReasoningSelect.value = settings.showReasoning ? 'true' : 'false';
+  visionMaxImageSizeInput.value = settings.visionMaxImageSize.toString();
+  modelPricesInput.value = JSON.stringify(settings.modelPrices, null, 2);
 
   settingsModal.classList.add('show');
 }
@@ -119,16 +273,42 @@ function hideSettingsDialog() {
 
 function saveSettings() {
   try {
+    let modelPrices;
+    try {
+      modelPrices = modelPricesInput.value.trim() ? JSON.parse(modelPricesInput.value) : {};
+    } catch {
+      throw new Error('Model prices must be valid JSON');
+    }
+
     settingsManager.saveSettings({
-      openaiProvider: openaiProviderSelect.value as 'openai' | 'ollama' | 'custom',
+      openaiProvider: openaiProviderSelect.value as LLMProviderType,
       openaiBaseUrl: openaiBaseUrlInput.value,
       openaiModel: openaiModelInput.value,
       openaiApiKey: openaiApiKeyInput.value,
+      mockScript: mockScriptInput.value.trim(),
+      maxRetries: Math.max(0, parseInt(maxRetriesInput.value) || 0),
+      fallbackModel: fallbackModelInput.value.trim(),
+      fallbackProvider: (fallbackProviderSelect.value || undefined) as LLMProviderType | undefined,
+      fallbackBaseUrl: fallbackBaseUrlInput.value.trim(),
+      fallbackApiKey: fallbackApiKeyInput.value,
       hyphaServerUrl: hyphaServerUrlInput.value,
       hyphaWorkspace: hyphaWorkspaceInput.value,
-      maxSteps: parseInt(maxStepsInput.value) || 10
+      maxSteps: parseInt(maxStepsInput.value) || 10,
+      approvalPolicy: approvalPolicySelect.value as ApprovalPolicy,
+      contextTokenBudget: Math.max(0, parseInt(contextTokenBudgetInput.value) || 0),
+      executionTimeout: Math.max(0, parseInt(executionTimeoutInput.value) || 0),
+      packages: packagesInput.value.split(',').map(requirement => requirement.trim()).filter(Boolean),
+      toolProtocol: toolProtocolSelect.value as ToolProtocol,
+      textToolModels: textToolModelsInput.value.split(',').map(model => model.trim()).filter(Boolean),
+      visionEnabled: visionEnabledSelect.value === 'true',
+      showReasoning: showReasoningSelect.value === 'true',
+      visionMaxImageSize: parseInt(visionMaxImageSizeInput.value) || 512,
+      modelPrices
     });
 
+    applyReasoningVisibility();
+    applyPackages();
+
     // Update agent manager and hypha service with new settings
     if (agentManager) {
       const newSettings = settingsManager.getSettings();
@@ -166,6 +346,23 @@ openaiProviderSelect.addEventListener('change', (e) => {
   if (defaults.openaiBaseUrl) openaiBaseUrlInput.value = defaults.openaiBaseUrl;
   if (defaults.openaiModel) openaiModelInput.value = defaults.openaiModel;
   if (defaults.openaiApiKey !== undefined) openaiApiKeyInput.value = defaults.openaiApiKey;
+  mockScriptGroup.style.display = provider === 'mock' ? 'block' : 'none';
+});
+
+// Load mock script from a JSON file
+mockScriptFileInput.addEventListener('change', async () => {
+  const file = mockScriptFileInput.files?.[0];
+  if (!file) return;
+
+  try {
+    const text = await file.text();
+    JSON.parse(text); // Validate before accepting
+    mockScriptInput.value = text;
+  } catch (error) {
+    addOutput(`✗ Invalid mock script file: ${(error as Error).message}`, 'error');
+  } finally {
+    mockScriptFileInput.value = '';
+  }
 });
 
 // Close modal on overlay click
@@ -175,6 +372,530 @@ settingsModal.addEventListener('click', (e) => {
   }
 });
 
+// Sessions
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+// Show the token usage of the last query and of the session in the status bar
+function updateUsageText(queryUsage: UsageTotals, sessionUsage: UsageTotals) {
+  usageText.textContent = sessionUsage.requests > 0
+    ? `🪙 ${formatUsage(queryUsage)} (session: ${formatUsage(sessionUsage)})`
+    : '';
+}
+
+// Save the conversation and transcript of the current session
+async function persistSession() {
+  if (!currentSession || !agentManager) return;
+
+  const settings = settingsManager.getSettings();
+  currentSession.tree = agentManager.getConversationTree().toData();
+  currentSession.usage = agentManager.getSessionUsage();
+  currentSession.plan = agentManager.getPlan();
+  currentSession.provider = settings.openaiProvider;
+  currentSession.model = settings.openaiModel;
+  currentSession.settings = toSessionSettings(settings);
+  try {
+    await sessionStore.save(currentSession);
+  } catch (error) {
+    console.error('Failed to save session:', error);
+  }
+}
+
+// Start recording into a new session, named after its first query
+function ensureSession(firstQuery: string) {
+  if (currentSession) return;
+  const name = firstQuery.length > 60 ? `${firstQuery.substring(0, 57)}...` : firstQuery;
+  currentSession = createSession(name, settingsManager.getSettings());
+}
+
+function showSessionsDialog() {
+  sessionsModal.classList.add('show');
+  sessionSearchInput.value = '';
+  updateSessionsList();
+}
+
+function hideSessionsDialog() {
+  sessionsModal.classList.remove('show');
+}
+
+async function updateSessionsList() {
+  let sessions;
+  try {
+    sessions = await sessionStore.list(sessionSearchInput.value);
+  } catch (error) {
+    sessionsList.innerHTML = `<div style="text-align: center; padding: 20px; color: #f48771; font-size: 13px;">Failed to load sessions: ${escapeHtml((error as Error).message)}</div>`;
+    return;
+  }
+
+  if (sessions.length === 0) {
+    sessionsList.innerHTML = `<div style="text-align: center; padding: 20px; color: #8b8b8b; font-size: 13px;">${sessionSearchInput.value ? 'No matching sessions' : 'No saved sessions yet'}</div>`;
+    return;
+  }
+
+  sessionsList.innerHTML = sessions.map(session => `
+    <div class="service-item session-item${session.id === currentSession?.id ? ' current' : ''}">
+      <div class="service-header">
+        <div class="service-name">${escapeHtml(session.name)}${session.id === currentSession?.id ? ' (current)' : ''}</div>
+        <div class="session-actions">
+          <button class="button-secondary" onclick="window.resumeSession('${session.id}')">Resume</button>
+          <button class="button-secondary" onclick="window.renameSession('${session.id}')">Rename</button>
+          <button class="button-secondary" onclick="window.exportSession('${session.id}')">Export</button>
+          <button class="service-remove-btn" onclick="window.deleteSession('${session.id}')">Delete</button>
+        </div>
+      </div>
+      <div class="service-description">${escapeHtml(session.model)} (${session.provider}) · ${session.messageCount} message(s)${session.branchCount > 1 ? ` · ${session.branchCount} branches` : ''}${session.usage ? ` · ${formatUsage(session.usage)}` : ''}</div>
+      <div class="service-functions">Updated ${new Date(session.updatedAt).toLocaleString()}</div>
+    </div>
+  `).join('');
+}
+
+// Render a recorded prompt with edit and branch controls (when it belongs to a turn)
+function renderPrompt(entry: TranscriptEntry, replace?: HTMLElement): HTMLElement {
+  const turnId = entry.turnId;
+  const siblings = turnId && agentManager ? agentManager.getConversationTree().getSiblings(turnId) : [];
+  const branchIndex = siblings.findIndex(turn => turn.id === turnId);
+
+  return terminalRenderer.renderUserPrompt(entry.content, turnId && branchIndex >= 0 ? {
+    branchIndex,
+    branchCount: siblings.length,
+    onEdit: prompt => editPrompt(turnId, prompt),
+    onSwitchBranch: offset => {
+      const target = siblings[branchIndex + offset];
+      if (target) switchToBranch(target.id);
+    }
+  } : undefined, replace);
+}
+
+// Re-render the terminal from the session preamble and the transcripts of the active branch
+function renderConversation() {
+  terminalRenderer.clear();
+  if (!currentSession || !agentManager) return;
+
+  const turns = agentManager.getConversationTree().getPath();
+  for (const entry of [...currentSession.preamble, ...turns.flatMap(turn => turn.transcript)]) {
+    if (entry.type === 'prompt') {
+      renderPrompt(entry);
+    } else {
+      renderOutput(entry.content, entry.type);
+    }
+  }
+}
+
+// Re-run an edited prompt as a new branch next to the original turn
+async function editPrompt(turnId: string, prompt: string) {
+  if (isRunning || !agentManager) {
+    addOutput('⚠ Wait for the current query to finish before editing a prompt', 'error');
+    return;
+  }
+
+  try {
+    agentManager.rewindBeforeTurn(turnId);
+  } catch (error) {
+    addOutput(`✗ Failed to branch: ${(error as Error).message}`, 'error');
+    return;
+  }
+  renderConversation();
+  await runAgentQuery(prompt);
+}
+
+function switchToBranch(turnId: string) {
+  if (isRunning || !agentManager) {
+    addOutput('⚠ Wait for the current query to finish before switching branches', 'error');
+    return;
+  }
+
+  try {
+    agentManager.switchBranch(turnId);
+  } catch (error) {
+    addOutput(`✗ Failed to switch branch: ${(error as Error).message}`, 'error');
+    return;
+  }
+  renderConversation();
+  persistSession();
+}
+
+function startNewSession() {
+  if (isRunning) {
+    addOutput('⚠ Wait for the current query to finish before switching sessions', 'error');
+    return;
+  }
+
+  persistSession();
+  currentSession = null;
+  agentManager?.clearHistory();
+  updateUsageText(emptyUsageTotals(), emptyUsageTotals());
+  terminalRenderer.clear();
+  addOutput('✓ Started a new session');
+  hideSessionsDialog();
+}
+
+async function resumeSessionById(sessionId: string) {
+  if (isRunning) {
+    addOutput('⚠ Wait for the current query to finish before switching sessions', 'error');
+    return;
+  }
+  if (!agentManager) {
+    addOutput('⚠ AI agent not initialized', 'error');
+    return;
+  }
+
+  try {
+    await persistSession();
+    const session = await sessionStore.get(sessionId);
+    if (!session) {
+      addOutput(`✗ Session not found: ${sessionId}`, 'error');
+      return;
+    }
+
+    agentManager.loadConversationTree(session.tree);
+    agentManager.setSessionUsage(session.usage ?? emptyUsageTotals());
+    agentManager.setPlan(session.plan ?? []);
+    updateUsageText(emptyUsageTotals(), agentManager.getSessionUsage());
+    currentSession = session;
+
+    // Restore the transcript of the active branch without recording it again
+    renderConversation();
+
+    addOutput(''); // Blank line
+    addOutput(`↺ Resumed session "${session.name}" (${agentManager.getConversationHistory().length} messages, model: ${session.model})`, 'info');
+    const settings = settingsManager.getSettings();
+    if (settings.openaiModel !== session.model || settings.openaiProvider !== session.provider) {
+      addOutput(`⚠ This session used ${session.model} (${session.provider}), continuing with ${settings.openaiModel} (${settings.openaiProvider})`, 'info');
+    }
+    addOutput('Python variables are not restored; re-run code if the agent needs earlier results.', 'info');
+    hideSessionsDialog();
+  } catch (error) {
+    addOutput(`✗ Failed to resume session: ${(error as Error).message}`, 'error');
+  }
+}
+
+async function renameSessionById(sessionId: string) {
+  try {
+    const session = await sessionStore.get(sessionId);
+    if (!session) return;
+
+    const name = prompt('Session name', session.name)?.trim();
+    if (!name) return;
+
+    await sessionStore.rename(sessionId, name);
+    if (currentSession?.id === sessionId) {
+      currentSession.name = name;
+    }
+    updateSessionsList();
+  } catch (error) {
+    addOutput(`✗ Failed to rename session: ${(error as Error).message}`, 'error');
+  }
+}
+
+async function exportSessionById(sessionId: string) {
+  try {
+    if (currentSession?.id === sessionId) {
+      await persistSession();
+    }
+    const session = await sessionStore.get(sessionId);
+    if (!session) {
+      addOutput(`✗ Session not found: ${sessionId}`, 'error');
+      return;
+    }
+    downloadSession(session);
+  } catch (error) {
+    addOutput(`✗ Failed to export session: ${(error as Error).message}`, 'error');
+  }
+}
+
+async function deleteSessionById(sessionId: string) {
+  if (!confirm('Delete this session? This cannot be undone.')) return;
+
+  try {
+    await sessionStore.delete(sessionId);
+    if (currentSession?.id === sessionId) {
+      // Keep the conversation on screen, but stop saving it
+      currentSession = null;
+    }
+    updateSessionsList();
+  } catch (error) {
+    addOutput(`✗ Failed to delete session: ${(error as Error).message}`, 'error');
+  }
+}
+
+// Expose session actions to window for inline onclick handlers
+(window as any).resumeSession = resumeSessionById;
+(window as any).renameSession = renameSessionById;
+(window as any).exportSession = exportSessionById;
+(window as any).deleteSession = deleteSessionById;
+
+// Plan panel
+function renderPlan(steps: PlanStep[]) {
+  planPanel.classList.toggle('hidden', steps.length === 0);
+  planTitle.textContent = `📋 Plan (${countFinishedSteps(steps)}/${steps.length})`;
+  planSteps.innerHTML = steps.map((step, index) => `
+    <li class="plan-step ${step.status}">${PLAN_STATUS_ICONS[step.status]} ${index + 1}. ${escapeHtml(step.title)}${step.note ? ` <span class="plan-note">— ${escapeHtml(step.note)}</span>` : ''}</li>
+  `).join('');
+}
+
+planHeader.addEventListener('click', () => {
+  const collapsed = planPanel.classList.toggle('collapsed');
+  planToggle.textContent = collapsed ? '▸' : '▾';
+});
+
+// Variable inspector panel
+let panelsRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function renderVariables(variables: NamespaceVariable[]) {
+  variablesTitle.textContent = `🔍 Variables (${variables.length})`;
+  if (variables.length === 0) {
+    variablesList.innerHTML = '<div class="side-panel-empty">No variables defined</div>';
+    return;
+  }
+  variablesList.innerHTML = `
+    <table class="variables-table">
+      <thead><tr><th>Name</th><th>Type</th><th>Shape</th><th>Size</th></tr></thead>
+      <tbody>
+        ${variables.map(variable => `
+          <tr title="${escapeHtml(variable.repr)}">
+            <td class="variable-name">${escapeHtml(variable.name)}</td>
+            <td class="variable-type">${escapeHtml(variable.type)}</td>
+            <td>${variable.shape ? variable.shape.join('×') : variable.length !== undefined ? `len ${variable.length}` : ''}</td>
+            <td>${formatBytes(variable.size)}</td>
+          </tr>
+          <tr><td colspan="4" class="variable-repr">${escapeHtml(variable.repr)}</td></tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+async function refreshVariables() {
+  if (!kernelManager?.isInitialized() || variablesPanel.classList.contains('hidden')) {
+    return;
+  }
+  try {
+    renderVariables(await kernelManager.inspectNamespace());
+  } catch (error) {
+    variablesList.innerHTML = `<div class="side-panel-empty">✗ ${escapeHtml((error as Error).message)}</div>`;
+  }
+}
+
+// Executions often come in bursts (agent steps), so refreshes are debounced
+function schedulePanelsRefresh(restarted: boolean) {
+  if (restarted) {
+    // The restarted kernel has a fresh filesystem
+    agentManager?.clearUploadedFiles();
+    filesDirectory = WORKING_DIRECTORY;
+  }
+  if (panelsRefreshTimer) {
+    clearTimeout(panelsRefreshTimer);
+  }
+  panelsRefreshTimer = setTimeout(async () => {
+    panelsRefreshTimer = null;
+    await refreshVariables();
+    await refreshFiles();
+  }, 300);
+}
+
+variablesBtn.addEventListener('click', () => {
+  variablesPanel.classList.toggle('hidden');
+  refreshVariables();
+});
+refreshVariablesBtn.addEventListener('click', refreshVariables);
+
+// File browser panel (kernel filesystem)
+let filesDirectory = WORKING_DIRECTORY;
+let fileEntries: KernelFile[] = [];
+let previewUrl: string | null = null;
+
+// Largest file shown in the preview
+const MAX_PREVIEW_SIZE = 5 * 1024 * 1024;
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', svg: 'image/svg+xml'
+};
+
+function renderFiles() {
+  filesTitle.textContent = `📁 ${filesDirectory}`;
+  const parent = filesDirectory === '/' ? null : filesDirectory.substring(0, filesDirectory.lastIndexOf('/')) || '/';
+  const rows = fileEntries.map((entry, index) => `
+    <div class="file-item">
+      ${entry.isDirectory
+        ? `<span class="file-name file-directory" onclick="window.openKernelDirectory(${index})">📁 ${escapeHtml(entry.name)}</span>`
+        : `<span class="file-name">📄 ${escapeHtml(entry.name)}</span><span class="file-size">${formatBytes(entry.size)}</span>`}
+      <span class="file-actions">
+        ${entry.isDirectory ? '' : `<button class="file-action" title="Preview" onclick="window.previewKernelFile(${index})">👁</button>
+        <button class="file-action" title="Download" onclick="window.downloadKernelFile(${index})">⬇</button>`}
+        <button class="file-action" title="Delete" onclick="window.deleteKernelFile(${index})">🗑</button>
+      </span>
+    </div>
+  `);
+  if (parent) {
+    rows.unshift(`<div class="file-item"><span class="file-name file-directory" onclick="window.openKernelDirectory(-1)">📁 ..</span></div>`);
+  }
+  filesList.innerHTML = rows.length > 0 ? rows.join('') : '<div class="side-panel-empty">Empty directory. Drop files here to upload them.</div>';
+}
+
+async function refreshFiles() {
+  if (!kernelManager?.isInitialized() || filesPanel.classList.contains('hidden')) {
+    return;
+  }
+  try {
+    fileEntries = await kernelManager.listFiles(filesDirectory);
+    renderFiles();
+  } catch (error) {
+    fileEntries = [];
+    filesList.innerHTML = `<div class="side-panel-empty">✗ ${escapeHtml((error as Error).message)}</div>`;
+  }
+}
+
+function clearFilePreview() {
+  if (previewUrl) {
+    URL.revokeObjectURL(previewUrl);
+    previewUrl = null;
+  }
+  filePreview.innerHTML = '';
+  filePreview.classList.add('hidden');
+}
+
+async function uploadFiles(files: File[]) {
+  if (!kernelManager?.isInitialized() || files.length === 0) {
+    return;
+  }
+  for (const file of files) {
+    const path = `${filesDirectory === '/' ? '' : filesDirectory}/${file.name}`;
+    try {
+      await kernelManager.writeFile(path, new Uint8Array(await file.arrayBuffer()));
+      agentManager?.addUploadedFile(path, file.size);
+      addOutput(`📁 Uploaded ${file.name} (${formatBytes(file.size)}) to ${path}`);
+    } catch (error) {
+      addOutput(`✗ Failed to upload ${file.name}: ${(error as Error).message}`, 'error');
+    }
+  }
+  if (filesPanel.classList.contains('hidden')) {
+    filesPanel.classList.remove('hidden');
+  }
+  await refreshFiles();
+}
+
+(window as any).openKernelDirectory = (index: number) => {
+  if (index === -1) {
+    filesDirectory = filesDirectory.substring(0, filesDirectory.lastIndexOf('/')) || '/';
+  } else if (fileEntries[index]) {
+    filesDirectory = fileEntries[index].path;
+  }
+  clearFilePreview();
+  refreshFiles();
+};
+
+(window as any).previewKernelFile = async (index: number) => {
+  const entry = fileEntries[index];
+  if (!entry || !kernelManager) return;
+  clearFilePreview();
+  filePreview.classList.remove('hidden');
+
+  const header = `<div class="file-preview-header">${escapeHtml(entry.name)}</div>`;
+  if (entry.size > MAX_PREVIEW_SIZE) {
+    filePreview.innerHTML = `${header}<div class="side-panel-empty">Too large to preview (${formatBytes(entry.size)})</div>`;
+    return;
+  }
+  try {
+    const bytes = await kernelManager.readFile(entry.path);
+    const imageType = IMAGE_TYPES[entry.name.split('.').pop()?.toLowerCase() ?? ''];
+    if (imageType) {
+      previewUrl = URL.createObjectURL(new Blob([bytes], { type: imageType }));
+      filePreview.innerHTML = `${header}<img class="file-preview-image" src="${previewUrl}" alt="${escapeHtml(entry.name)}" />`;
+    } else if (bytes.subarray(0, 1000).includes(0)) {
+      filePreview.innerHTML = `${header}<div class="side-panel-empty">Binary file (${formatBytes(entry.size)})</div>`;
+    } else {
+      const text = new TextDecoder().decode(bytes);
+      const shown = text.length > 20000 ? `${text.substring(0, 20000)}\n... (${text.length - 20000} more characters)` : text;
+      filePreview.innerHTML = `${header}<pre class="file-preview-text">${escapeHtml(shown)}</pre>`;
+    }
+  } catch (error) {
+    filePreview.innerHTML = `${header}<div class="side-panel-empty">✗ ${escapeHtml((error as Error).message)}</div>`;
+  }
+};
+
+(window as any).downloadKernelFile = async (index: number) => {
+  const entry = fileEntries[index];
+  if (!entry || !kernelManager) return;
+  try {
+    const bytes = await kernelManager.readFile(entry.path);
+    const url = URL.createObjectURL(new Blob([bytes]));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = entry.name;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    addOutput(`✗ Failed to download ${entry.path}: ${(error as Error).message}`, 'error');
+  }
+};
+
+(window as any).deleteKernelFile = async (index: number) => {
+  const entry = fileEntries[index];
+  if (!entry || !kernelManager) return;
+  if (!confirm(`Delete ${entry.path}${entry.isDirectory ? ' and everything in it' : ''}?`)) return;
+  try {
+    await kernelManager.deleteFile(entry.path);
+    agentManager?.removeUploadedFile(entry.path);
+    clearFilePreview();
+    await refreshFiles();
+  } catch (error) {
+    addOutput(`✗ Failed to delete ${entry.path}: ${(error as Error).message}`, 'error');
+  }
+};
+
+filesBtn.addEventListener('click', () => {
+  filesPanel.classList.toggle('hidden');
+  refreshFiles();
+});
+refreshFilesBtn.addEventListener('click', refreshFiles);
+uploadFilesBtn.addEventListener('click', () => uploadFileInput.click());
+uploadFileInput.addEventListener('change', async () => {
+  await uploadFiles(Array.from(uploadFileInput.files ?? []));
+  uploadFileInput.value = '';
+});
+
+// Drag and drop files anywhere on the terminal to upload them
+workspace.addEventListener('dragover', (e) => {
+  if (e.dataTransfer?.types.includes('Files')) {
+    e.preventDefault();
+    workspace.classList.add('drag-over');
+  }
+});
+workspace.addEventListener('dragleave', (e) => {
+  if (!workspace.contains(e.relatedTarget as Node | null)) {
+    workspace.classList.remove('drag-over');
+  }
+});
+workspace.addEventListener('drop', (e) => {
+  if (e.dataTransfer?.types.includes('Files')) {
+    e.preventDefault();
+    workspace.classList.remove('drag-over');
+    uploadFiles(Array.from(e.dataTransfer.files));
+  }
+});
+
+sessionsBtn.addEventListener('click', showSessionsDialog);
+closeSessionsBtn.addEventListener('click', hideSessionsDialog);
+closeSessionsBtn2.addEventListener('click', hideSessionsDialog);
+newSessionBtn.addEventListener('click', startNewSession);
+sessionSearchInput.addEventListener('input', () => updateSessionsList());
+
+sessionsModal.addEventListener('click', (e) => {
+  if (e.target === sessionsModal) {
+    hideSessionsDialog();
+  }
+});
+
 // Services Modal Functions
 function showServicesDialog() {
   servicesModal.classList.add('show');
@@ -296,15 +1017,24 @@ async function initializeKernel() {
       (status, message) => updateStatus(status as any, message)
     );
 
+    kernelManager.setPackages(getPreloadPackages());
     await kernelManager.initialize();
+    kernelManager.onExecutionComplete(schedulePanelsRefresh);
 
     // Initialize agent manager first - it's independent of HyphaService
     const settings = settingsManager.getSettings();
-    agentManager = new AgentManager(
-      settings,
-      kernelManager,
-      (message, type, append) => addOutput(message, type || 'info', append || false)
-    );
+    agentManager = new AgentManager(settings, kernelManager);
+    agentManager.events.on('*', createAgentEventRenderer((message, type, append) => addOutput(message, type, append)));
+    agentManager.events.on('usage', (event) => updateUsageText(event.query, event.session));
+    agentManager.events.on('plan', (event) => renderPlan(event.steps));
+    agentManager.setApprovalHandler((request) => terminalRenderer.renderApprovalPrompt(request));
+    // Kernels for subtasks delegated with kernel "separate"
+    agentManager.setKernelFactory(async () => {
+      const childKernel = new KernelManager((message, type) => addOutput(message, type || 'info'), () => {});
+      childKernel.setPackages(kernelManager?.getPackages() ?? []);
+      await childKernel.initialize();
+      return childKernel;
+    });
     addOutput('✓ AI agent initialized');
 
     // Initialize Hypha service with agent manager reference
@@ -317,6 +1047,7 @@ async function initializeKernel() {
     );
 
     restartBtn.disabled = false;
+    replayBtn.disabled = false;
     terminalInput.disabled = false;
   } catch (error) {
     addOutput(`Failed to initialize kernel: ${(error as Error).message}`, 'error');
@@ -357,6 +1088,177 @@ function setMode(mode: 'script' | 'query') {
 scriptModeBtn.addEventListener('click', () => setMode('script'));
 queryModeBtn.addEventListener('click', () => setMode('query'));
 
+// Whether a script execution or agent query started from the terminal is in progress
+let isRunning = false;
+
+function setRunning(running: boolean) {
+  isRunning = running;
+  stopBtn.disabled = !running;
+}
+
+// Stop the agent loop and interrupt any running code
+async function stopExecution() {
+  if (!isRunning) return;
+
+  stopBtn.disabled = true;
+  addOutput('⏹ Stopping...', 'info');
+
+  try {
+    if (agentManager && agentManager.isRunning()) {
+      await agentManager.stop();
+    } else if (kernelManager && kernelManager.isInitialized()) {
+      await kernelManager.interruptKernel();
+    }
+  } catch (error) {
+    addOutput(`Failed to stop: ${(error as Error).message}`, 'error');
+  }
+}
+
+stopBtn.addEventListener('click', stopExecution);
+
+// Esc or Ctrl+C (without a text selection to copy) stops the running query
+document.addEventListener('keydown', (e) => {
+  if (!isRunning) return;
+
+  const isCopy = (e.ctrlKey || e.metaKey) && e.key === 'c' && !!window.getSelection()?.toString();
+  if (e.key === 'Escape' || (e.ctrlKey && e.key === 'c' && !isCopy)) {
+    e.preventDefault();
+    stopExecution();
+  }
+});
+
+// Record button - toggle cassette recording, download the cassette when stopped
+recordBtn.addEventListener('click', () => {
+  if (!agentManager) {
+    addOutput('⚠ AI agent not initialized', 'error');
+    return;
+  }
+
+  if (agentManager.isRecording()) {
+    const cassette = agentManager.stopRecording();
+    if (cassette) {
+      downloadCassette(cassette);
+    }
+    recordBtn.textContent = '⏺ Record';
+  } else {
+    agentManager.startRecording();
+    recordBtn.textContent = '⏹ Stop Recording';
+  }
+});
+
+// Replay button - pick a cassette file and replay it
+replayBtn.addEventListener('click', () => {
+  if (isRunning) {
+    addOutput('⚠ Wait for the current query to finish before replaying', 'error');
+    return;
+  }
+  replayFileInput.click();
+});
+
+replayFileInput.addEventListener('change', async () => {
+  const file = replayFileInput.files?.[0];
+  replayFileInput.value = '';
+  if (!file || !agentManager) return;
+
+  // Save the current session and detach it: replaying clears the conversation,
+  // and its output must not be recorded into (and overwrite) the saved session
+  await persistSession();
+  const previousSession = currentSession;
+  currentSession = null;
+  updateUsageText(emptyUsageTotals(), emptyUsageTotals());
+
+  setRunning(true);
+  replayBtn.disabled = true;
+  try {
+    const cassette = parseCassette(await file.text());
+    if (previousSession) {
+      addOutput(`💾 Saved session "${previousSession.name}"; the replay is not recorded`, 'info');
+    }
+    await agentManager.replayCassette(cassette);
+  } catch (error) {
+    addOutput(`✗ Replay failed: ${(error as Error).message}`, 'error');
+  } finally {
+    setRunning(false);
+    replayBtn.disabled = false;
+  }
+});
+
+// Show, set (JSON) or clear ("off") the result schema for the following queries
+function handleSchemaCommand(argument: string) {
+  if (!argument) {
+    addOutput(resultSchema
+      ? `📐 Result schema:\n${JSON.stringify(resultSchema, null, 2)}`
+      : '📐 No result schema set. Use /schema {"type": "object", ...} to request structured results', 'info');
+    return;
+  }
+
+  if (argument === 'off') {
+    resultSchema = null;
+    addOutput('✓ Result schema cleared', 'info');
+    return;
+  }
+
+  try {
+    const schema = JSON.parse(argument);
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      throw new Error('schema must be a JSON object');
+    }
+    resultSchema = schema;
+    addOutput('✓ Result schema set: the agent will finish with a final_answer result matching it', 'info');
+  } catch (error) {
+    addOutput(`✗ Invalid result schema: ${(error as Error).message}`, 'error');
+  }
+}
+
+// Send a query to the agent, recording its output into the turn it creates
+async function runAgentQuery(input: string) {
+  if (!agentManager) return;
+
+  const singleStep = input.startsWith('/single ');
+  const query = singleStep ? input.substring(8).trim() : input;
+  ensureSession(query);
+
+  const tree = agentManager.getConversationTree();
+  const previousHead = tree.getHead();
+  const promptEntry: TranscriptEntry = { content: input, type: 'prompt' };
+  pendingTurnTranscript = [];
+
+  // Show user query with spacing
+  addOutput(''); // Blank line before
+  pendingTurnTranscript.push(promptEntry);
+  const promptElement = renderPrompt(promptEntry);
+  addOutput(`🤖 Assistant: `, 'assistant');
+
+  // Use React loop by default for extended reasoning
+  // Users can opt for single-step with /single prefix
+  const settings = settingsManager.getSettings();
+  setRunning(true);
+  try {
+    if (singleStep) {
+      await agentManager.processQuery(query);
+    } else {
+      await agentManager.processQueryInReactLoop(query, settings.maxSteps, { resultSchema: resultSchema ?? undefined });
+    }
+  } catch (error) {
+    addOutput(`\nAgent error: ${(error as Error).message}`, 'error');
+  } finally {
+    setRunning(false);
+
+    // Move the recorded output into the new turn and enable its edit / branch controls
+    const output = pendingTurnTranscript;
+    pendingTurnTranscript = null;
+    const head = tree.getHead();
+    if (head && head !== previousHead) {
+      promptEntry.turnId = head.id;
+      head.transcript.push(...output);
+      renderPrompt(promptEntry, promptElement);
+    } else {
+      getActiveTranscript()?.push(...output);
+    }
+    persistSession();
+  }
+}
+
 // Handle terminal input with command history support
 terminalInput.addEventListener('keydown', async (e) => {
   // Command history navigation
@@ -402,10 +1304,14 @@ terminalInput.addEventListener('keydown', async (e) => {
       addOutput(`>>> ${input}`, 'info');
 
       // Execute code
+      setRunning(true);
       try {
         await kernelManager.executeCode(input);
       } catch (error) {
         addOutput(`Execution error: ${(error as Error).message}`, 'error');
+      } finally {
+        setRunning(false);
+        persistSession();
       }
     } else {
       // Query mode: Send to AI agent
@@ -419,24 +1325,32 @@ terminalInput.addEventListener('keydown', async (e) => {
         return;
       }
 
-      // Show user query with spacing
-      addOutput(''); // Blank line before
-      addOutput(`----------------------------------\n🤔 User: \n${input}`, 'info');
-      addOutput(`🤖 Assistant: `, 'assistant');
-
-      // Use React loop by default for extended reasoning
-      // Users can opt for single-step with /single prefix
-      const settings = settingsManager.getSettings();
-      try {
-        if (input.startsWith('/single ')) {
-          const actualQuery = input.substring(8).trim();
-          await agentManager.processQuery(actualQuery);
-        } else {
-          await agentManager.processQueryInReactLoop(input, settings.maxSteps);
+      // /resume continues a React loop that failed with an API error
+      if (input === '/resume') {
+        if (!agentManager.canResume()) {
+          addOutput('⚠ Nothing to resume', 'error');
+          return;
         }
-      } catch (error) {
-        addOutput(`\nAgent error: ${(error as Error).message}`, 'error');
+        addOutput(''); // Blank line before
+        addOutput(`🤖 Assistant: `, 'assistant');
+        setRunning(true);
+        try {
+          await agentManager.resumeReactLoop();
+        } catch (error) {
+          addOutput(`\nAgent error: ${(error as Error).message}`, 'error');
+        } finally {
+          setRunning(false);
+          persistSession();
+        }
+        return;
       }
+
+      if (input === '/schema' || input.startsWith('/schema ')) {
+        handleSchemaCommand(input.substring(7).trim());
+        return;
+      }
+
+      await runAgentQuery(input);
     }
   }
 });
@@ -481,7 +1395,14 @@ async function applyUrlConfiguration() {
     hasChanges = true;
   }
   if (urlParams.openai_provider) {
-    updatedSettings.openaiProvider = urlParams.openai_provider as 'openai' | 'ollama' | 'custom';
+    updatedSettings.openaiProvider = urlParams.openai_provider as LLMProviderType;
+    hasChanges = true;
+  }
+  if (urlParams.mock_script) {
+    // A mock script implies the offline mock provider
+    updatedSettings.openaiProvider = 'mock';
+    updatedSettings.openaiModel = 'mock';
+    updatedSettings.mockScript = urlParams.mock_script;
     hasChanges = true;
   }
 
@@ -515,6 +1436,12 @@ async function applyUrlConfiguration() {
     }
   }
 
+  // Install the packages the agent artifact needs before its startup script runs
+  if (agentArtifact?.manifest.packages?.length && kernelManager) {
+    kernelManager.setPackages(getPreloadPackages());
+    await kernelManager.installPackages();
+  }
+
   // Run startup script from agent artifact if present
   if (agentArtifact?.manifest.startup_script && kernelManager) {
     addOutput('🐍 Running agent startup script...');
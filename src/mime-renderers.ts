@@ -0,0 +1,250 @@
+// MIME Renderers for Kernel Display Outputs
+// `execute_result` and `display_data` events carry a bundle of representations
+// (e.g. text/html and text/plain for a pandas DataFrame). The terminal renders the
+// richest one it has a renderer for.
+import { marked } from 'marked';
+
+export type MimeBundle = Record<string, any>;
+
+export interface MimeRenderer {
+  mimeType: string;
+  rank: number; // Lower ranks are richer and preferred when a bundle has several types
+  // Returns false when it has nothing to show, so the next type of the bundle is used
+  render(data: any, element: HTMLElement, metadata: Record<string, any>): void | false;
+}
+
+const KATEX_VERSION = '0.16.11';
+const KATEX_URL = `https://cdn.jsdelivr.net/npm/katex@${KATEX_VERSION}/dist`;
+
+// Elements removed with their content
+const BLOCKED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'link', 'meta', 'base',
+  'form', 'input', 'button', 'select', 'textarea', 'template', 'noscript', 'svg', 'math'
+]);
+
+// Elements kept as they are; all other elements are replaced by their content
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'code', 'col', 'colgroup', 'dd', 'del', 'details', 'div', 'dl', 'dt',
+  'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'mark', 'ol',
+  'p', 'pre', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot',
+  'th', 'thead', 'tr', 'u', 'ul'
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'align', 'alt', 'border', 'class', 'colspan', 'height', 'href', 'open', 'rowspan', 'src', 'style', 'title', 'valign', 'width'
+]);
+
+/**
+ * Sanitize untrusted HTML (e.g. a pandas table): removes scripts, styles, frames,
+ * forms, event handlers and javascript: URLs, and unwraps unknown elements.
+ */
+export function sanitizeHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  sanitizeChildren(doc.body);
+  return doc.body.innerHTML;
+}
+
+function sanitizeChildren(parent: Element): void {
+  for (const child of Array.from(parent.children)) {
+    const tag = child.tagName.toLowerCase();
+    if (BLOCKED_TAGS.has(tag)) {
+      child.remove();
+      continue;
+    }
+
+    sanitizeChildren(child);
+    if (!ALLOWED_TAGS.has(tag)) {
+      child.replaceWith(...Array.from(child.childNodes));
+      continue;
+    }
+
+    for (const attribute of Array.from(child.attributes)) {
+      const name = attribute.name.toLowerCase();
+      const value = attribute.value.trim();
+      const unsafe = !ALLOWED_ATTRIBUTES.has(name)
+        || (name === 'href' && !/^(https?:|mailto:|#)/i.test(value))
+        || (name === 'src' && !/^(https?:|data:image\/(png|jpeg|gif|webp);)/i.test(value))
+        || (name === 'style' && /url\s*\(|expression|position\s*:/i.test(value));
+      if (unsafe) {
+        child.removeAttribute(attribute.name);
+      }
+    }
+    if (tag === 'a') {
+      child.setAttribute('target', '_blank');
+      child.setAttribute('rel', 'noopener noreferrer');
+    }
+  }
+}
+
+/**
+ * Build a collapsible tree for a JSON value. Objects and arrays below the first
+ * levels start collapsed.
+ */
+export function renderJsonTree(value: any, key?: string, depth: number = 0): HTMLElement {
+  const label = key !== undefined ? `${key}: ` : '';
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    const isArray = Array.isArray(value);
+    const details = document.createElement('details');
+    details.className = 'json-node';
+    details.open = depth < 2;
+
+    const summary = document.createElement('summary');
+    summary.textContent = `${label}${isArray ? `Array(${entries.length})` : `{${entries.length} keys}`}`;
+    details.appendChild(summary);
+
+    for (const [childKey, childValue] of entries) {
+      details.appendChild(renderJsonTree(childValue, childKey, depth + 1));
+    }
+    return details;
+  }
+
+  const leaf = document.createElement('div');
+  leaf.className = 'json-leaf';
+  const keyElement = document.createElement('span');
+  keyElement.className = 'json-key';
+  keyElement.textContent = label;
+  const valueElement = document.createElement('span');
+  valueElement.className = `json-${value === null ? 'null' : typeof value}`;
+  valueElement.textContent = JSON.stringify(value);
+  leaf.append(keyElement, valueElement);
+  return leaf;
+}
+
+/**
+ * Text of a bundle entry (the kernel may send strings as lists of lines)
+ */
+function getText(data: any): string {
+  return Array.isArray(data) ? data.join('') : String(data);
+}
+
+function renderImage(mimeType: string) {
+  return (data: any, element: HTMLElement, metadata: Record<string, any>) => {
+    const img = document.createElement('img');
+    img.className = 'mime-image';
+    img.src = `data:${mimeType};base64,${getText(data).replace(/\s/g, '')}`;
+    const size = metadata?.[mimeType] ?? {};
+    if (size.width) img.width = size.width;
+    if (size.height) img.height = size.height;
+    element.appendChild(img);
+  };
+}
+
+let katexLoader: Promise<any> | null = null;
+
+/**
+ * Load KaTeX from the CDN on first use
+ */
+function loadKatex(): Promise<any> {
+  if ((window as any).katex) {
+    return Promise.resolve((window as any).katex);
+  }
+  if (!katexLoader) {
+    katexLoader = new Promise((resolve, reject) => {
+      const stylesheet = document.createElement('link');
+      stylesheet.rel = 'stylesheet';
+      stylesheet.href = `${KATEX_URL}/katex.min.css`;
+      document.head.appendChild(stylesheet);
+
+      const script = document.createElement('script');
+      script.src = `${KATEX_URL}/katex.min.js`;
+      script.onload = () => resolve((window as any).katex);
+      script.onerror = () => {
+        katexLoader = null;
+        reject(new Error('Failed to load KaTeX'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return katexLoader;
+}
+
+/**
+ * Render LaTeX (e.g. from SymPy). The source is shown until KaTeX has loaded, and
+ * stays when it cannot be loaded or parsed.
+ */
+function renderLatex(data: any, element: HTMLElement): void {
+  const source = getText(data).trim();
+  const math = source
+    .replace(/^\$\$([\s\S]*)\$\$$/, '$1')
+    .replace(/^\$([\s\S]*)\$$/, '$1')
+    .replace(/^\\\[([\s\S]*)\\\]$/, '$1')
+    .trim();
+
+  const block = document.createElement('div');
+  block.className = 'mime-latex';
+  block.textContent = source;
+  element.appendChild(block);
+
+  loadKatex()
+    .then(katex => katex.render(math, block, { displayMode: true, throwOnError: false }))
+    .catch(error => console.warn('[Terminal] LaTeX rendering unavailable:', error));
+}
+
+export const DEFAULT_MIME_RENDERERS: MimeRenderer[] = [
+  {
+    mimeType: 'text/html',
+    rank: 10,
+    // Script-based widgets (e.g. Plotly, Bokeh) are empty once sanitized
+    render: (data, element) => {
+      const container = document.createElement('div');
+      container.className = 'mime-html';
+      container.innerHTML = sanitizeHtml(getText(data));
+      if (!container.textContent?.trim() && !container.querySelector('img')) {
+        return false;
+      }
+      element.appendChild(container);
+    }
+  },
+  {
+    mimeType: 'image/svg+xml',
+    rank: 20,
+    // As an <img>, scripts inside the SVG never run
+    render: (data, element) => {
+      const img = document.createElement('img');
+      img.className = 'mime-image';
+      img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(getText(data))}`;
+      element.appendChild(img);
+    }
+  },
+  { mimeType: 'image/png', rank: 30, render: renderImage('image/png') },
+  { mimeType: 'image/jpeg', rank: 40, render: renderImage('image/jpeg') },
+  {
+    mimeType: 'text/markdown',
+    rank: 50,
+    render: (data, element) => {
+      const container = document.createElement('div');
+      container.className = 'markdown-content';
+      container.innerHTML = sanitizeHtml(marked.parse(getText(data)) as string);
+      element.appendChild(container);
+    }
+  },
+  { mimeType: 'text/latex', rank: 60, render: renderLatex },
+  {
+    mimeType: 'application/json',
+    rank: 70,
+    render: (data, element) => {
+      const value = typeof data === 'string' ? safeJsonParse(data) : data;
+      const tree = renderJsonTree(value);
+      tree.classList.add('mime-json');
+      element.appendChild(tree);
+    }
+  },
+  {
+    mimeType: 'text/plain',
+    rank: 100,
+    render: (data, element) => {
+      element.style.color = '#4ec9b0';
+      element.textContent = getText(data).trim();
+    }
+  }
+];
+
+function safeJsonParse(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,182 @@
+// Offline Mock LLM Provider
+// Replays a scripted sequence of assistant messages and tool calls, streamed chunk by
+// chunk in the same shape as a real backend, so the whole UI, kernel and Hypha flow
+// can be exercised without network access.
+import type { LLMChatRequest, LLMChunk, LLMCompletion, LLMProvider, LLMProviderType, LLMUsage } from './llm-provider';
+import { sleep } from './retry';
+
+export interface MockToolCall {
+  id?: string;
+  name: string;
+  arguments: Record<string, any> | string;
+}
+
+export interface MockResponse {
+  content?: string;
+  tool_calls?: MockToolCall[];
+}
+
+/**
+ * Mock script: either a bare array of responses or an object with a `responses` array.
+ * Each chat completion request consumes the next response in order.
+ */
+export interface MockScript {
+  name?: string;
+  chunkSize?: number; // Characters per streamed chunk (default: 8)
+  chunkDelayMs?: number; // Delay between chunks (default: 15)
+  responses: MockResponse[];
+}
+
+// Built-in script used when no script is configured
+const DEFAULT_MOCK_SCRIPT: MockScript = {
+  name: 'Built-in demo',
+  responses: [
+    {
+      content: 'I will run a quick computation in the Python kernel.',
+      tool_calls: [{
+        name: 'executeCode',
+        arguments: {
+          code: 'import sys\nnumbers = list(range(1, 11))\nprint(f"Python {sys.version.split()[0]}")\nprint(f"Sum of 1..10 = {sum(numbers)}")',
+          explanation: 'Compute a simple sum to check the kernel works'
+        }
+      }]
+    },
+    {
+      content: 'The kernel works: the sum of the numbers from 1 to 10 is **55**.\n\n_This reply was produced by the offline mock provider._'
+    }
+  ]
+};
+
+const DEFAULT_CHUNK_SIZE = 8;
+const DEFAULT_CHUNK_DELAY_MS = 15;
+
+export class MockProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'mock';
+  private source: string;
+  private script: MockScript | null = null;
+  private cursor: number = 0;
+
+  /**
+   * @param source - Inline JSON script, a URL to a JSON script, or empty for the built-in demo
+   */
+  constructor(source: string = '') {
+    this.source = source.trim();
+  }
+
+  /**
+   * Restart the script from the first response
+   */
+  reset(): void {
+    this.cursor = 0;
+  }
+
+  async *streamChat(request: LLMChatRequest): AsyncIterable<LLMChunk> {
+    const script = await this.loadScript();
+    const response = this.nextResponse(script);
+    const chunkSize = script.chunkSize || DEFAULT_CHUNK_SIZE;
+    const delayMs = script.chunkDelayMs ?? DEFAULT_CHUNK_DELAY_MS;
+
+    const content = response.content || '';
+    for (let i = 0; i < content.length; i += chunkSize) {
+      await sleep(delayMs, request.signal);
+      yield { choices: [{ index: 0, delta: { content: content.substring(i, i + chunkSize) } }] };
+    }
+
+    const toolCalls = this.toToolCalls(response);
+    for (let index = 0; index < toolCalls.length; index++) {
+      const toolCall = toolCalls[index];
+      await sleep(delayMs, request.signal);
+      yield {
+        choices: [{
+          index: 0,
+          delta: {
+            tool_calls: [{ index, id: toolCall.id, type: 'function', function: { name: toolCall.function.name, arguments: '' } }]
+          }
+        }]
+      };
+
+      const args = toolCall.function.arguments;
+      for (let i = 0; i < args.length; i += chunkSize * 4) {
+        await sleep(delayMs, request.signal);
+        yield {
+          choices: [{
+            index: 0,
+            delta: { tool_calls: [{ index, function: { arguments: args.substring(i, i + chunkSize * 4) } }] }
+          }]
+        };
+      }
+    }
+
+    yield {
+      choices: [{ index: 0, delta: {}, finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop' }]
+    };
+    yield { choices: [], usage: this.estimateUsage(request, content + JSON.stringify(toolCalls)) };
+  }
+
+  async complete(request: LLMChatRequest): Promise<LLMCompletion> {
+    // Non-streaming requests (e.g. history summaries) do not consume the script
+    const content = `Mock summary of ${request.messages.length} messages.`;
+    return {
+      message: { role: 'assistant', content },
+      usage: this.estimateUsage(request, content)
+    };
+  }
+
+  private async loadScript(): Promise<MockScript> {
+    if (this.script) {
+      return this.script;
+    }
+
+    let raw: any;
+    if (!this.source) {
+      raw = DEFAULT_MOCK_SCRIPT;
+    } else if (this.source.startsWith('{') || this.source.startsWith('[')) {
+      raw = JSON.parse(this.source);
+    } else {
+      const response = await fetch(this.source);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch mock script: ${response.status} ${response.statusText}`);
+      }
+      raw = await response.json();
+    }
+
+    const script: MockScript = Array.isArray(raw) ? { responses: raw } : raw;
+    if (!script || !Array.isArray(script.responses)) {
+      throw new Error('Invalid mock script: expected an array of responses or an object with a "responses" array');
+    }
+
+    this.script = script;
+    console.log(`[Mock] Loaded mock script${script.name ? ` "${script.name}"` : ''} with ${script.responses.length} responses`);
+    return script;
+  }
+
+  private nextResponse(script: MockScript): MockResponse {
+    if (this.cursor >= script.responses.length) {
+      return { content: `(Mock script finished after ${script.responses.length} responses)` };
+    }
+    return script.responses[this.cursor++];
+  }
+
+  private toToolCalls(response: MockResponse): any[] {
+    return (response.tool_calls || []).map((toolCall, index) => ({
+      id: toolCall.id || `mock_call_${this.cursor}_${index}`,
+      type: 'function',
+      function: {
+        name: toolCall.name,
+        arguments: typeof toolCall.arguments === 'string'
+          ? toolCall.arguments
+          : JSON.stringify(toolCall.arguments ?? {})
+      }
+    }));
+  }
+
+  private estimateUsage(request: LLMChatRequest, output: string): LLMUsage {
+    const promptTokens = Math.ceil(JSON.stringify(request.messages).length / 4);
+    const completionTokens = Math.ceil(output.length / 4);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    };
+  }
+}
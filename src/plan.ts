@@ -0,0 +1,84 @@
+// Task Plan Tracking
+// The model keeps an ordered checklist with the update_plan and mark_step tools.
+// The checklist is shown in the plan panel, added to the context of every
+// reasoning step and saved with sessions.
+
+export type PlanStepStatus = 'pending' | 'in_progress' | 'done' | 'skipped' | 'failed';
+
+export const PLAN_STEP_STATUSES: PlanStepStatus[] = ['pending', 'in_progress', 'done', 'skipped', 'failed'];
+
+export const PLAN_STATUS_ICONS: Record<PlanStepStatus, string> = {
+  pending: '☐',
+  in_progress: '▶',
+  done: '☑',
+  skipped: '⤼',
+  failed: '☒'
+};
+
+export interface PlanStep {
+  title: string;
+  status: PlanStepStatus;
+  note?: string; // Short result or reason given when the step was marked
+}
+
+/**
+ * Number of steps that are finished (done or skipped)
+ */
+export function countFinishedSteps(steps: PlanStep[]): number {
+  return steps.filter(step => step.status === 'done' || step.status === 'skipped').length;
+}
+
+export class TaskPlan {
+  private steps: PlanStep[] = [];
+
+  getSteps(): PlanStep[] {
+    return this.steps.map(step => ({ ...step }));
+  }
+
+  setSteps(steps: PlanStep[]): void {
+    this.steps = steps.map(step => ({ ...step }));
+  }
+
+  isEmpty(): boolean {
+    return this.steps.length === 0;
+  }
+
+  /**
+   * Replace the checklist. Steps whose title is unchanged keep their status and note.
+   */
+  update(titles: string[]): void {
+    const previous = new Map(this.steps.map(step => [step.title, step]));
+    this.steps = titles
+      .map(title => title.trim())
+      .filter(Boolean)
+      .map(title => previous.get(title) ?? { title, status: 'pending' });
+  }
+
+  /**
+   * Set the status of a step
+   * @param index - 1-based step number
+   */
+  mark(index: number, status: PlanStepStatus, note?: string): PlanStep {
+    const step = this.steps[index - 1];
+    if (!step) {
+      throw new Error(`No plan step ${index} (the plan has ${this.steps.length} step(s))`);
+    }
+    if (!PLAN_STEP_STATUSES.includes(status)) {
+      throw new Error(`Invalid status "${status}". Use one of: ${PLAN_STEP_STATUSES.join(', ')}`);
+    }
+    step.status = status;
+    if (note !== undefined) {
+      step.note = note;
+    }
+    return { ...step };
+  }
+
+  /**
+   * Checklist as text, e.g. "1. [done] Load data (150 rows)"
+   */
+  toText(): string {
+    return this.steps
+      .map((step, index) => `${index + 1}. [${step.status}] ${step.title}${step.note ? ` (${step.note})` : ''}`)
+      .join('\n');
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { getReasoningDelta, splitThinkTags, ThinkTagSplitter, type ReasoningSplit } from './reasoning';
+
+/**
+ * Feed chunks through a splitter and join what it emits
+ */
+function stream(chunks: string[]): ReasoningSplit {
+  const splitter = new ThinkTagSplitter();
+  const result: ReasoningSplit = { content: '', reasoning: '' };
+  for (const part of [...chunks.map(chunk => splitter.push(chunk)), splitter.flush()]) {
+    result.content += part.content;
+    result.reasoning += part.reasoning;
+  }
+  return result;
+}
+
+describe('getReasoningDelta', () => {
+  it('reads reasoning_content or reasoning', () => {
+    expect(getReasoningDelta({ reasoning_content: 'Let me think' })).toBe('Let me think');
+    expect(getReasoningDelta({ reasoning: 'Hmm' })).toBe('Hmm');
+  });
+
+  it('returns an empty string without reasoning', () => {
+    expect(getReasoningDelta({ content: 'Hi' })).toBe('');
+    expect(getReasoningDelta(undefined)).toBe('');
+    expect(getReasoningDelta({ reasoning: { text: 'not a string' } })).toBe('');
+  });
+});
+
+describe('splitThinkTags', () => {
+  it('leaves text without tags alone', () => {
+    expect(splitThinkTags('  The answer is 42.')).toEqual({ content: '  The answer is 42.', reasoning: '' });
+  });
+
+  it('splits a leading think block', () => {
+    expect(splitThinkTags('<think>\nCount the cells.\n</think>\n\nThere are 12 cells.'))
+      .toEqual({ content: 'There are 12 cells.', reasoning: 'Count the cells.' });
+  });
+
+  it('supports thinking tags and several blocks', () => {
+    expect(splitThinkTags('<thinking>First</thinking>A <think>Second</think>B'))
+      .toEqual({ content: 'A B', reasoning: 'First\n\nSecond' });
+  });
+
+  it('treats an unclosed tag as reasoning up to the end', () => {
+    expect(splitThinkTags('<think>Still thinking')).toEqual({ content: '', reasoning: 'Still thinking' });
+  });
+});
+
+describe('ThinkTagSplitter', () => {
+  it('streams plain content through', () => {
+    expect(stream(['Hello', ' world'])).toEqual({ content: 'Hello world', reasoning: '' });
+  });
+
+  it('splits tags inside a chunk', () => {
+    expect(stream(['<think>plan</think>\nanswer'])).toEqual({ content: 'answer', reasoning: 'plan' });
+  });
+
+  it('handles tags split across chunks', () => {
+    expect(stream(['<th', 'ink>pl', 'an</thi', 'nk>', '\n\nans', 'wer'])).toEqual({ content: 'answer', reasoning: 'plan' });
+  });
+
+  it('holds back a possible tag start until the next chunk', () => {
+    const splitter = new ThinkTagSplitter();
+    expect(splitter.push('a <thi')).toEqual({ content: 'a ', reasoning: '' });
+    expect(splitter.push('s is not a tag')).toEqual({ content: '<this is not a tag', reasoning: '' });
+  });
+
+  it('releases held back text on flush', () => {
+    const splitter = new ThinkTagSplitter();
+    expect(splitter.push('x <')).toEqual({ content: 'x ', reasoning: '' });
+    expect(splitter.flush()).toEqual({ content: '<', reasoning: '' });
+  });
+
+  it('keeps whitespace in content that does not follow a thought', () => {
+    expect(stream(['  indented', '\n  code'])).toEqual({ content: '  indented\n  code', reasoning: '' });
+  });
+
+  it('gives the same split as splitThinkTags for a complete reply', () => {
+    const reply = '<think>Check the shape first.</think>\n\nThe array has shape (3, 4).';
+    const chunks = reply.match(/.{1,5}/gs) ?? [];
+    const streamed = stream(chunks);
+
+    expect(streamed.content).toBe(splitThinkTags(reply).content);
+    expect(streamed.reasoning.trim()).toBe(splitThinkTags(reply).reasoning);
+  });
+});
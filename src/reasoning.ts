@@ -0,0 +1,121 @@
+// Reasoning (Thinking) Streams
+// Reasoning models either stream their thoughts in a separate `reasoning_content`
+// (or `reasoning`) delta field, or inline them in the content between <think> tags.
+// Both are split from the answer so they can be shown apart and kept out of history.
+
+const OPEN_TAGS = ['<think>', '<thinking>'];
+const CLOSE_TAGS = ['</think>', '</thinking>'];
+const THINK_BLOCK_PATTERN = /<(think|thinking)>([\s\S]*?)(?:<\/\1>|$)/g;
+
+/**
+ * Text split into answer content and reasoning
+ */
+export interface ReasoningSplit {
+  content: string;
+  reasoning: string;
+}
+
+/**
+ * Reasoning text carried in a streamed delta (`reasoning_content` or `reasoning`), if any
+ */
+export function getReasoningDelta(delta: any): string {
+  const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+  return typeof reasoning === 'string' ? reasoning : '';
+}
+
+/**
+ * Split complete text into content and the reasoning inside <think> tags.
+ * An unclosed tag counts as reasoning up to the end of the text.
+ */
+export function splitThinkTags(text: string): ReasoningSplit {
+  const reasoning: string[] = [];
+  const content = text.replace(THINK_BLOCK_PATTERN, (_match, _tag, thought: string) => {
+    reasoning.push(thought.trim());
+    return '';
+  });
+  return {
+    content: reasoning.length > 0 ? content.trimStart() : content,
+    reasoning: reasoning.filter(Boolean).join('\n\n')
+  };
+}
+
+/**
+ * Streaming counterpart of splitThinkTags. Text that may be the start of a
+ * tag is held back until the next chunk shows whether it is one.
+ */
+export class ThinkTagSplitter {
+  private inThought = false;
+  private pending = '';
+  private seenThought = false; // Leading whitespace after a thought block is dropped
+
+  push(chunk: string): ReasoningSplit {
+    const result: ReasoningSplit = { content: '', reasoning: '' };
+    let text = this.pending + chunk;
+    this.pending = '';
+
+    while (text) {
+      const tags = this.inThought ? CLOSE_TAGS : OPEN_TAGS;
+      const found = findFirstTag(text, tags);
+      if (found) {
+        this.emit(result, text.substring(0, found.index));
+        text = text.substring(found.index + found.tag.length);
+        this.inThought = !this.inThought;
+        this.seenThought = true;
+        continue;
+      }
+
+      // Hold back a trailing partial tag (e.g. "<thi")
+      const partial = getPartialTagLength(text, tags);
+      this.emit(result, text.substring(0, text.length - partial));
+      this.pending = text.substring(text.length - partial);
+      break;
+    }
+    return result;
+  }
+
+  /**
+   * Release text held back at the end of the stream
+   */
+  flush(): ReasoningSplit {
+    const result: ReasoningSplit = { content: '', reasoning: '' };
+    this.emit(result, this.pending);
+    this.pending = '';
+    return result;
+  }
+
+  private emit(result: ReasoningSplit, text: string): void {
+    if (this.inThought) {
+      result.reasoning += text;
+      return;
+    }
+    if (this.seenThought && result.content === '') {
+      text = text.trimStart();
+      if (text) {
+        this.seenThought = false;
+      }
+    }
+    result.content += text;
+  }
+}
+
+function findFirstTag(text: string, tags: string[]): { index: number; tag: string } | null {
+  let first: { index: number; tag: string } | null = null;
+  for (const tag of tags) {
+    const index = text.indexOf(tag);
+    if (index !== -1 && (!first || index < first.index)) {
+      first = { index, tag };
+    }
+  }
+  return first;
+}
+
+function getPartialTagLength(text: string, tags: string[]): number {
+  const maxLength = Math.max(...tags.map(tag => tag.length)) - 1;
+  for (let length = Math.min(maxLength, text.length); length > 0; length--) {
+    const suffix = text.substring(text.length - length);
+    if (tags.some(tag => tag.startsWith(suffix))) {
+      return length;
+    }
+  }
+  return 0;
+}
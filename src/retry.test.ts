@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  APIError,
+  APIUserAbortError,
+  AuthenticationError,
+  BadRequestError,
+  RateLimitError
+} from 'openai';
+import { isRetryableError } from './retry';
+
+function apiError(status: number): APIError {
+  return APIError.generate(status, { message: `HTTP ${status}` }, undefined, new Headers());
+}
+
+describe('isRetryableError', () => {
+  it('retries SDK connection errors and timeouts', () => {
+    expect(isRetryableError(new APIConnectionError({ message: 'Connection error.' }))).toBe(true);
+    expect(isRetryableError(new APIConnectionTimeoutError())).toBe(true);
+  });
+
+  it('retries fetch network failures', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new TypeError('NetworkError when attempting to fetch resource.'))).toBe(true);
+    expect(isRetryableError(new TypeError('network error'))).toBe(true);
+  });
+
+  it('retries transient HTTP statuses', () => {
+    for (const status of [408, 409, 429, 500, 502, 503, 504, 529]) {
+      expect(isRetryableError(apiError(status))).toBe(true);
+    }
+    expect(apiError(429)).toBeInstanceOf(RateLimitError);
+  });
+
+  it('retries Anthropic overloaded errors', () => {
+    const overloaded = Object.assign(new Error('Overloaded'), { status: 529 });
+    expect(isRetryableError(overloaded)).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(apiError(401))).toBe(false);
+    expect(isRetryableError(apiError(404))).toBe(false);
+    expect(isRetryableError(apiError(422))).toBe(false);
+    expect(isRetryableError(apiError(501))).toBe(false);
+    expect(apiError(400)).toBeInstanceOf(BadRequestError);
+    expect(apiError(401)).toBeInstanceOf(AuthenticationError);
+  });
+
+  it('does not retry aborts', () => {
+    expect(isRetryableError(new APIUserAbortError())).toBe(false);
+  });
+
+  it('does not retry other errors', () => {
+    expect(isRetryableError(new Error('Request aborted'))).toBe(false);
+    expect(isRetryableError(new SyntaxError('Unexpected token < in JSON'))).toBe(false);
+    expect(isRetryableError(new TypeError("Cannot read properties of undefined (reading 'choices')"))).toBe(false);
+    expect(isRetryableError({ message: 'no status' })).toBe(false);
+    expect(isRetryableError(undefined)).toBe(false);
+    expect(isRetryableError(null)).toBe(false);
+  });
+});
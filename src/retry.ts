@@ -0,0 +1,102 @@
+// Retry Helpers for LLM API Calls
+import { APIConnectionError, APIUserAbortError } from 'openai';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+/** HTTP statuses of transient failures: timeout, conflict, rate limit, server errors and overload (Anthropic 529) */
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/** Messages of the TypeError fetch throws when the network fails (Chrome, Firefox, Safari, Node) */
+const NETWORK_ERROR_MESSAGES = [
+  'failed to fetch',
+  'networkerror when attempting to fetch resource',
+  'load failed',
+  'network error',
+  'terminated'
+];
+
+/**
+ * Whether an API error is a known transient failure worth retrying: a connection
+ * error or timeout from the OpenAI SDK, a fetch network failure, or a retryable
+ * HTTP status. Everything else (bad requests, auth errors, aborts, bugs) is fatal.
+ */
+export function isRetryableError(error: any): boolean {
+  if (error instanceof APIUserAbortError) {
+    return false;
+  }
+  if (error instanceof APIConnectionError) { // Includes APIConnectionTimeoutError
+    return true;
+  }
+  if (error instanceof TypeError) {
+    const message = error.message.toLowerCase();
+    return NETWORK_ERROR_MESSAGES.some(networkMessage => message.startsWith(networkMessage));
+  }
+  return typeof error?.status === 'number' && RETRYABLE_STATUSES.has(error.status);
+}
+
+/**
+ * Read the Retry-After delay (in ms) from an error's response headers, if any
+ */
+export function getRetryAfterMs(error: any): number | null {
+  const headers = error?.headers;
+  if (!headers) return null;
+
+  const read = (name: string): string | null => {
+    if (typeof headers.get === 'function') return headers.get(name);
+    return headers[name] ?? null;
+  };
+
+  const retryAfterMs = read('retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = read('retry-after');
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  // HTTP date format
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before the next attempt: Retry-After when provided, otherwise
+ * exponential backoff with full jitter
+ * @param attempt - Number of the failed attempt (0-based)
+ */
+export function getRetryDelayMs(error: any, attempt: number): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, MAX_DELAY_MS * 2);
+  }
+
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,166 @@
+// Persistent Chat Sessions Stored in IndexedDB
+// A session keeps the agent conversation tree (including tool calls and their
+// outputs), the terminal transcript and the model settings used, so it can be
+// resumed after a page reload.
+import type { AgentSettings } from './settings';
+import type { LLMProviderType } from './llm-provider';
+import { ConversationTree, type ConversationTreeData, type TranscriptEntry } from './conversation-tree';
+import type { UsageTotals } from './usage';
+import type { PlanStep } from './plan';
+
+const DB_NAME = 'hypha-code-agent';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+// Settings snapshot saved with a session (API keys are never persisted here)
+export type SessionSettings = Omit<AgentSettings, 'openaiApiKey' | 'fallbackApiKey'>;
+
+export interface ChatSession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  provider: LLMProviderType;
+  model: string;
+  settings: SessionSettings;
+  preamble: TranscriptEntry[]; // Terminal output before the first turn
+  tree: ConversationTreeData; // Turns carry their own messages and transcript
+  usage?: UsageTotals; // Token usage and cost accumulated in this session
+  plan?: PlanStep[]; // Task checklist kept by the agent
+}
+
+export type ChatSessionSummary = Omit<ChatSession, 'preamble' | 'tree' | 'settings' | 'plan'> & {
+  messageCount: number; // Messages on the active branch
+  branchCount: number;
+};
+
+/**
+ * Create a new, empty session for the given settings
+ */
+export function createSession(name: string, settings: AgentSettings): ChatSession {
+  const now = new Date().toISOString();
+  return {
+    id: `session-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    provider: settings.openaiProvider,
+    model: settings.openaiModel,
+    settings: toSessionSettings(settings),
+    preamble: [],
+    tree: { turns: [], headId: null }
+  };
+}
+
+/**
+ * Strip secrets from settings before they are stored with a session
+ */
+export function toSessionSettings(settings: AgentSettings): SessionSettings {
+  const { openaiApiKey: _apiKey, fallbackApiKey: _fallbackApiKey, ...rest } = settings;
+  return rest;
+}
+
+/**
+ * Download a session (conversation tree, transcript, plan and settings) as a JSON file
+ */
+export function downloadSession(session: ChatSession): void {
+  const blob = new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${session.name.replace(/[^\w-]+/g, '-').substring(0, 40) || 'session'}.session.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export class SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * List saved sessions, most recently updated first.
+   * @param search - Optional case-insensitive text matched against names and conversation content
+   */
+  async list(search: string = ''): Promise<ChatSessionSummary[]> {
+    const sessions = await this.request<ChatSession[]>('readonly', store => store.getAll());
+    const query = search.trim().toLowerCase();
+
+    return sessions
+      .filter(session => !query || this.matches(session, query))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(({ preamble: _preamble, tree, settings: _settings, plan: _plan, ...summary }) => {
+        const parentIds = new Set(tree.turns.map(turn => turn.parentId));
+        return {
+          ...summary,
+          messageCount: ConversationTree.fromData(tree).getMessages().length,
+          // Leaves of the tree, one per branch
+          branchCount: Math.max(1, tree.turns.filter(turn => !parentIds.has(turn.id)).length)
+        };
+      });
+  }
+
+  async get(id: string): Promise<ChatSession | null> {
+    const session = await this.request<ChatSession | undefined>('readonly', store => store.get(id));
+    return session ?? null;
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    session.updatedAt = new Date().toISOString();
+    // Round-trip through JSON so non-cloneable values never reach IndexedDB
+    const record = JSON.parse(JSON.stringify(session));
+    await this.request('readwrite', store => store.put(record));
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    const session = await this.get(id);
+    if (!session) {
+      throw new Error(`Session not found: ${id}`);
+    }
+    session.name = name;
+    await this.save(session);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  private matches(session: ChatSession, query: string): boolean {
+    if (session.name.toLowerCase().includes(query)) {
+      return true;
+    }
+    const entries = [...session.preamble, ...session.tree.turns.flatMap(turn => turn.transcript)];
+    return entries.some(entry => entry.content.toLowerCase().includes(query));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to open session database'));
+      });
+      // Allow a later retry if opening failed (e.g. private browsing)
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Session database error'));
+    });
+  }
+}
+
+// Export singleton instance
+export const sessionStore = new SessionStore();
@@ -1,11 +1,23 @@
 // Settings Management with LocalStorage
+import type { LLMProviderType } from './llm-provider';
+import type { ApprovalPolicy } from './approval';
+import type { ToolProtocol } from './text-tool-protocol';
+import { DEFAULT_MODEL_PRICES, type ModelPrice } from './usage';
 
 export interface AgentSettings {
-  // OpenAI Configuration
-  openaiProvider: 'openai' | 'ollama' | 'custom';
+  // LLM Configuration (field names kept for backward compatibility with saved settings)
+  openaiProvider: LLMProviderType;
   openaiBaseUrl: string;
   openaiModel: string;
   openaiApiKey: string;
+  mockScript?: string; // Inline JSON or URL of the script replayed by the mock provider
+
+  // Retries and Fallback
+  maxRetries: number; // Retries for rate limits, server errors and dropped streams (0 disables)
+  fallbackProvider?: LLMProviderType; // Backend used once retries are exhausted (defaults to the primary one)
+  fallbackBaseUrl?: string; // Empty for the primary endpoint (same provider) or the provider's default one
+  fallbackModel?: string; // Empty disables the fallback
+  fallbackApiKey?: string; // Empty to reuse the primary API key
 
   // Hypha Configuration
   hyphaServerUrl: string;
@@ -13,6 +25,22 @@ export interface AgentSettings {
 
   // Agent Behavior
   maxSteps: number; // Maximum reasoning steps for React loop
+  approvalPolicy: ApprovalPolicy; // When to ask the user before executing agent-generated code
+  contextTokenBudget: number; // Approximate token budget before older turns are compacted (0 disables)
+  executionTimeout: number; // Seconds before agent and remote code executions are interrupted (0 disables)
+  packages: string[]; // Python packages installed when the kernel starts and after every restart
+  toolProtocol: ToolProtocol; // Function calling, tool calls parsed from text, or text once a model replies with code
+  textToolModels: string[]; // Model name prefixes that always use the text tool protocol
+
+  // Cost Tracking
+  modelPrices: Record<string, ModelPrice>; // USD per million input/output tokens, matched by model name prefix
+
+  // Vision
+  visionEnabled: boolean; // Attach image outputs to the follow-up message for vision-capable models
+  visionMaxImageSize: number; // Longest side (px) images are downscaled to before sending
+
+  // Display
+  showReasoning: boolean; // Show the thinking of reasoning models in the terminal
 
   // Custom System Prompt
   startupScript?: string; // Python script to generate system prompt from stdout
@@ -24,13 +52,39 @@ const DEFAULT_SETTINGS: AgentSettings = {
   openaiBaseUrl: 'http://localhost:11434/v1/',
   openaiModel: 'qwen2.5-coder:7b',
   openaiApiKey: 'ollama',
+  maxRetries: 3,
   hyphaServerUrl: 'https://hypha.aicell.io',
   hyphaWorkspace: '',
-  maxSteps: 25
+  maxSteps: 25,
+  approvalPolicy: 'never-ask',
+  contextTokenBudget: 24000,
+  executionTimeout: 120,
+  packages: [],
+  toolProtocol: 'auto',
+  textToolModels: [],
+  modelPrices: DEFAULT_MODEL_PRICES,
+  visionEnabled: false,
+  visionMaxImageSize: 512,
+  showReasoning: true
 };
 
 const STORAGE_KEY = 'hypha-code-agent-settings';
 
+/**
+ * Execution timeout in seconds: the given value if it is a finite number >= 0 (0 disables),
+ * otherwise the default
+ */
+export function getExecutionTimeout(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : DEFAULT_SETTINGS.executionTimeout;
+}
+
+/**
+ * Replace invalid values (e.g. from old storage or remote updates) with defaults
+ */
+export function normalizeSettings(settings: AgentSettings): AgentSettings {
+  return { ...settings, executionTimeout: getExecutionTimeout(settings.executionTimeout) };
+}
+
 export class SettingsManager {
   private settings: AgentSettings;
 
@@ -43,7 +97,7 @@ export class SettingsManager {
       const stored = localStorage.getItem(STORAGE_KEY);
       if (stored) {
         const parsed = JSON.parse(stored);
-        return { ...DEFAULT_SETTINGS, ...parsed };
+        return normalizeSettings({ ...DEFAULT_SETTINGS, ...parsed });
       }
     } catch (error) {
       console.error('Failed to load settings:', error);
@@ -52,7 +106,7 @@ export class SettingsManager {
   }
 
   saveSettings(settings: Partial<AgentSettings>): void {
-    this.settings = { ...this.settings, ...settings };
+    this.settings = normalizeSettings({ ...this.settings, ...settings });
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
       console.log('Settings saved successfully');
@@ -82,28 +136,47 @@ export class SettingsManager {
 
   // Helper to get provider-specific defaults
   getProviderDefaults(provider: string): Partial<AgentSettings> {
-    switch (provider) {
-      case 'openai':
-        return {
-          openaiBaseUrl: 'https://api.openai.com/v1/',
-          openaiModel: 'gpt-4',
-          openaiApiKey: ''
-        };
-      case 'ollama':
-        return {
-          openaiBaseUrl: 'http://localhost:11434/v1/',
-          openaiModel: 'qwen2.5-coder:7b',
-          openaiApiKey: 'ollama'
-        };
-      case 'custom':
-        return {
-          openaiBaseUrl: '',
-          openaiModel: '',
-          openaiApiKey: ''
-        };
-      default:
-        return {};
-    }
+    return getProviderDefaults(provider);
+  }
+}
+
+/**
+ * Default endpoint, model and API key of a provider
+ */
+export function getProviderDefaults(provider: string): Partial<AgentSettings> {
+  switch (provider) {
+    case 'openai':
+      return {
+        openaiBaseUrl: 'https://api.openai.com/v1/',
+        openaiModel: 'gpt-4',
+        openaiApiKey: ''
+      };
+    case 'ollama':
+      return {
+        openaiBaseUrl: 'http://localhost:11434/v1/',
+        openaiModel: 'qwen2.5-coder:7b',
+        openaiApiKey: 'ollama'
+      };
+    case 'anthropic':
+      return {
+        openaiBaseUrl: 'https://api.anthropic.com/v1/',
+        openaiModel: 'claude-sonnet-4-5',
+        openaiApiKey: ''
+      };
+    case 'mock':
+      return {
+        openaiBaseUrl: '',
+        openaiModel: 'mock',
+        openaiApiKey: ''
+      };
+    case 'custom':
+      return {
+        openaiBaseUrl: '',
+        openaiModel: '',
+        openaiApiKey: ''
+      };
+    default:
+      return {};
   }
 }
 
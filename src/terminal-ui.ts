@@ -1,6 +1,10 @@
 // Terminal UI Enhancements
 import { marked } from 'marked';
 import hljs from 'highlight.js';
+import type { ApprovalDecision, ApprovalRequest } from './approval';
+import type { AgentEvent } from './agent-events';
+import { formatUsage } from './usage';
+import { DEFAULT_MIME_RENDERERS, type MimeBundle, type MimeRenderer } from './mime-renderers';
 
 // Configure marked for basic options (syntax highlighting will be done separately)
 marked.setOptions({
@@ -14,9 +18,19 @@ export interface TerminalLine {
   timestamp?: Date;
 }
 
+export interface PromptControls {
+  branchIndex: number; // Position among the sibling branches (0-based)
+  branchCount: number;
+  onEdit: (prompt: string) => void;
+  onSwitchBranch: (offset: -1 | 1) => void;
+}
+
 export class TerminalRenderer {
   private container: HTMLElement;
+  private groups: HTMLElement[] = []; // Bodies of open collapsible groups, innermost last
   private lastLine: HTMLElement | null = null;
+  private thinkingBlock: HTMLDetailsElement | null = null; // Reasoning block being streamed into
+  private mimeRenderers: MimeRenderer[] = [...DEFAULT_MIME_RENDERERS]; // Sorted by rank, richest first
   private commandHistory: string[] = [];
   private historyIndex: number = -1;
 
@@ -34,6 +48,7 @@ export class TerminalRenderer {
       this.scrollToBottom();
       return this.lastLine;
     }
+    this.collapseThinking();
 
     // Create new line element
     const lineElement = document.createElement('div');
@@ -52,13 +67,322 @@ export class TerminalRenderer {
       lineElement.textContent = line.content;
     }
 
-    this.container.appendChild(lineElement);
+    this.getTarget().appendChild(lineElement);
     this.lastLine = lineElement;
     this.scrollToBottom();
 
     return lineElement;
   }
 
+  /**
+   * Register a renderer for a MIME type, replacing any renderer registered for the same type
+   */
+  registerMimeRenderer(renderer: MimeRenderer): void {
+    this.mimeRenderers = [...this.mimeRenderers.filter(r => r.mimeType !== renderer.mimeType), renderer]
+      .sort((a, b) => a.rank - b.rank);
+  }
+
+  /**
+   * Render a display output with the renderer of the richest MIME type in the bundle.
+   * A renderer with nothing to show passes the bundle on to the next available type.
+   */
+  renderMimeBundle(data: MimeBundle, metadata: Record<string, any> = {}): HTMLElement | null {
+    const renderers = this.mimeRenderers.filter(r => data[r.mimeType] !== undefined && data[r.mimeType] !== null);
+    const element = document.createElement('div');
+    element.className = 'terminal-line mime-output';
+
+    const rendered = renderers.some(renderer => {
+      try {
+        if (renderer.render(data[renderer.mimeType], element, metadata) === false) {
+          element.replaceChildren();
+          return false;
+        }
+      } catch (error) {
+        console.error(`[Terminal] Failed to render ${renderer.mimeType}:`, error);
+        element.textContent = String(data['text/plain'] ?? `[${renderer.mimeType} output]`);
+      }
+      return true;
+    });
+    if (!rendered) {
+      return null;
+    }
+    this.collapseThinking();
+
+    this.getTarget().appendChild(element);
+    this.lastLine = null;
+    this.scrollToBottom();
+    element.querySelectorAll('img').forEach(img => img.addEventListener('load', () => this.scrollToBottom(), { once: true }));
+    return element;
+  }
+
+  /**
+   * Render model reasoning in a dimmed, collapsible block. The block stays open while
+   * reasoning is streamed and collapses once other output follows.
+   */
+  renderThinking(text: string, append: boolean = false): void {
+    if (append && this.thinkingBlock && this.lastLine?.parentElement === this.thinkingBlock) {
+      this.lastLine.textContent += text;
+      this.scrollToBottom();
+      return;
+    }
+    this.collapseThinking();
+
+    const details = document.createElement('details');
+    details.className = 'terminal-line terminal-thinking';
+    details.open = true;
+    const summary = document.createElement('summary');
+    summary.textContent = '💭 Thinking';
+    const body = document.createElement('div');
+    body.className = 'terminal-thinking-body';
+    body.textContent = text;
+    details.append(summary, body);
+
+    this.getTarget().appendChild(details);
+    this.thinkingBlock = details;
+    this.lastLine = body;
+    this.scrollToBottom();
+  }
+
+  private collapseThinking(): void {
+    if (this.thinkingBlock) {
+      this.thinkingBlock.open = false;
+      this.thinkingBlock = null;
+    }
+  }
+
+  /**
+   * Start a collapsible group: following lines are rendered inside it until endGroup()
+   */
+  beginGroup(title: string): void {
+    this.collapseThinking();
+    const details = document.createElement('details');
+    details.className = 'terminal-group';
+    details.open = true;
+    const summary = document.createElement('summary');
+    summary.textContent = title;
+    const body = document.createElement('div');
+    body.className = 'terminal-group-body';
+    details.append(summary, body);
+
+    this.getTarget().appendChild(details);
+    this.groups.push(body);
+    this.lastLine = null;
+    this.scrollToBottom();
+  }
+
+  /**
+   * Close the innermost group and collapse it
+   */
+  endGroup(): void {
+    this.collapseThinking();
+    const body = this.groups.pop();
+    if (body?.parentElement instanceof HTMLDetailsElement) {
+      body.parentElement.open = false;
+    }
+    this.lastLine = null;
+  }
+
+  /**
+   * Remove the last rendered line (e.g. a partial reply discarded before a retry)
+   */
+  removeLastLine(): void {
+    this.getTarget().lastElementChild?.remove();
+    this.thinkingBlock = null;
+    this.lastLine = null;
+  }
+
+  private getTarget(): HTMLElement {
+    return this.groups[this.groups.length - 1] ?? this.container;
+  }
+
+  /**
+   * Render an approval prompt for agent-generated code with Approve / Edit / Reject controls.
+   * Resolves with the user's decision.
+   */
+  renderApprovalPrompt(request: ApprovalRequest): Promise<ApprovalDecision> {
+    const panel = document.createElement('div');
+    panel.className = 'terminal-line approval-panel';
+
+    const header = document.createElement('div');
+    header.className = 'approval-header';
+    header.textContent = request.reasons.length > 0
+      ? `⚠ Approval required: this code ${request.reasons.join(', ')}`
+      : '⚠ Approval required before executing this code';
+    panel.appendChild(header);
+
+    const codeContainer = document.createElement('div');
+    this.renderCodeBlock(codeContainer, request.code);
+    panel.appendChild(codeContainer);
+
+    const editor = document.createElement('textarea');
+    editor.className = 'approval-editor';
+    editor.value = request.code;
+    editor.rows = Math.min(20, Math.max(4, request.code.split('\n').length + 1));
+    editor.style.display = 'none';
+    panel.appendChild(editor);
+
+    const reasonInput = document.createElement('input');
+    reasonInput.type = 'text';
+    reasonInput.className = 'approval-reason';
+    reasonInput.placeholder = 'Optional feedback for the agent when rejecting...';
+    panel.appendChild(reasonInput);
+
+    const actions = document.createElement('div');
+    actions.className = 'approval-actions';
+    const approveBtn = document.createElement('button');
+    approveBtn.textContent = '✓ Approve';
+    const editBtn = document.createElement('button');
+    editBtn.className = 'button-secondary';
+    editBtn.textContent = '✎ Edit';
+    const rejectBtn = document.createElement('button');
+    rejectBtn.className = 'approval-reject-btn';
+    rejectBtn.textContent = '✗ Reject';
+    actions.append(approveBtn, editBtn, rejectBtn);
+    panel.appendChild(actions);
+
+    const status = document.createElement('div');
+    status.className = 'approval-status';
+    panel.appendChild(status);
+
+    this.getTarget().appendChild(panel);
+    this.lastLine = null;
+    this.scrollToBottom();
+
+    return new Promise<ApprovalDecision>(resolve => {
+      let editing = false;
+
+      const finish = (decision: ApprovalDecision, label: string) => {
+        [approveBtn, editBtn, rejectBtn].forEach(btn => btn.disabled = true);
+        editor.disabled = true;
+        reasonInput.disabled = true;
+        status.textContent = label;
+        resolve(decision);
+      };
+
+      approveBtn.addEventListener('click', () => {
+        if (editing && editor.value !== request.code) {
+          finish({ action: 'edit', code: editor.value }, '✎ Edited and approved');
+        } else {
+          finish({ action: 'approve' }, '✓ Approved');
+        }
+      });
+
+      editBtn.addEventListener('click', () => {
+        editing = !editing;
+        editor.style.display = editing ? 'block' : 'none';
+        codeContainer.style.display = editing ? 'none' : 'block';
+        editBtn.textContent = editing ? '↺ Discard Edits' : '✎ Edit';
+        approveBtn.textContent = editing ? '✓ Run Edited' : '✓ Approve';
+        if (editing) {
+          editor.focus();
+        } else {
+          editor.value = request.code;
+        }
+      });
+
+      rejectBtn.addEventListener('click', () => {
+        const reason = reasonInput.value.trim();
+        finish({ action: 'reject', ...(reason && { reason }) }, `✗ Rejected${reason ? `: ${reason}` : ''}`);
+      });
+
+      request.signal?.addEventListener('abort', () => {
+        finish({ action: 'reject', reason: 'Cancelled by user' }, '⏹ Cancelled');
+      }, { once: true });
+    });
+  }
+
+  /**
+   * Render a user prompt with controls to edit it into a new branch and to switch
+   * between sibling branches. Replaces the given element instead of appending when set.
+   */
+  renderUserPrompt(prompt: string, controls?: PromptControls, replace?: HTMLElement): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'terminal-line user-prompt';
+
+    const header = document.createElement('div');
+    header.className = 'user-prompt-header';
+    header.textContent = '----------------------------------\n🤔 User: ';
+    element.appendChild(header);
+
+    const text = document.createElement('div');
+    text.textContent = prompt;
+    element.appendChild(text);
+
+    if (controls) {
+      const editBtn = document.createElement('button');
+      editBtn.className = 'prompt-control';
+      editBtn.title = 'Edit this prompt and re-run it as a new branch';
+      editBtn.textContent = '✎ Edit';
+      header.appendChild(editBtn);
+
+      if (controls.branchCount > 1) {
+        const prevBtn = document.createElement('button');
+        prevBtn.className = 'prompt-control';
+        prevBtn.textContent = '◀';
+        prevBtn.disabled = controls.branchIndex <= 0;
+        prevBtn.addEventListener('click', () => controls.onSwitchBranch(-1));
+
+        const label = document.createElement('span');
+        label.className = 'prompt-branch-label';
+        label.textContent = `${controls.branchIndex + 1}/${controls.branchCount}`;
+
+        const nextBtn = document.createElement('button');
+        nextBtn.className = 'prompt-control';
+        nextBtn.textContent = '▶';
+        nextBtn.disabled = controls.branchIndex >= controls.branchCount - 1;
+        nextBtn.addEventListener('click', () => controls.onSwitchBranch(1));
+
+        header.append(prevBtn, label, nextBtn);
+      }
+
+      const editor = document.createElement('div');
+      editor.className = 'prompt-editor';
+      editor.style.display = 'none';
+      const textarea = document.createElement('textarea');
+      textarea.value = prompt;
+      textarea.rows = Math.min(10, Math.max(2, prompt.split('\n').length + 1));
+      const runBtn = document.createElement('button');
+      runBtn.textContent = '▶ Run as New Branch';
+      const cancelBtn = document.createElement('button');
+      cancelBtn.className = 'button-secondary';
+      cancelBtn.textContent = 'Cancel';
+      const actions = document.createElement('div');
+      actions.className = 'approval-actions';
+      actions.append(runBtn, cancelBtn);
+      editor.append(textarea, actions);
+      element.appendChild(editor);
+
+      const setEditing = (editing: boolean) => {
+        editor.style.display = editing ? 'block' : 'none';
+        text.style.display = editing ? 'none' : 'block';
+        if (editing) {
+          textarea.value = prompt;
+          textarea.focus();
+        }
+      };
+
+      editBtn.addEventListener('click', () => setEditing(editor.style.display === 'none'));
+      cancelBtn.addEventListener('click', () => setEditing(false));
+      runBtn.addEventListener('click', () => {
+        const edited = textarea.value.trim();
+        if (edited) {
+          setEditing(false);
+          controls.onEdit(edited);
+        }
+      });
+    }
+
+    if (replace) {
+      replace.replaceWith(element);
+    } else {
+      this.container.appendChild(element);
+      this.scrollToBottom();
+    }
+    this.lastLine = null;
+
+    return element;
+  }
+
   /**
    * Render markdown content
    */
@@ -175,6 +499,8 @@ export class TerminalRenderer {
    */
   clear(): void {
     this.container.innerHTML = '';
+    this.groups = [];
+    this.thinkingBlock = null;
     this.lastLine = null;
   }
 
@@ -225,6 +551,155 @@ export class TerminalRenderer {
   }
 }
 
+const MAX_TOOL_RESULT_LINES = 20;
+const MAX_TOOL_RESULT_LENGTH = 1000;
+
+/**
+ * Truncate a tool result for display in the terminal
+ */
+function truncateForDisplay(text: string): string {
+  const lines = text.trim().split('\n');
+  if (lines.length > MAX_TOOL_RESULT_LINES) {
+    text = lines.slice(0, MAX_TOOL_RESULT_LINES).join('\n') + `\n... (${lines.length - MAX_TOOL_RESULT_LINES} more lines truncated)`;
+  }
+  if (text.length > MAX_TOOL_RESULT_LENGTH) {
+    text = text.substring(0, MAX_TOOL_RESULT_LENGTH) + `\n... (${text.length - MAX_TOOL_RESULT_LENGTH} more characters truncated)`;
+  }
+  return text;
+}
+
+/**
+ * Create a listener that renders agent events as terminal lines through the given output function
+ */
+export function createAgentEventRenderer(
+  output: (text: string, type: string, append: boolean) => void
+): (event: AgentEvent) => void {
+  const line = (text: string, type: string = 'info') => output(text, type, false);
+  let streaming: 'content' | 'reasoning' | null = null; // What is being streamed into the last line
+  let streamedLines = 0; // Lines started by the current stream, removed if it is discarded
+  const children: Map<string, (event: AgentEvent) => void> = new Map(); // Renderers of running child agents
+
+  return (event: AgentEvent) => {
+    if (event.type !== 'content_delta' && event.type !== 'reasoning_delta' && event.type !== 'usage') {
+      streaming = null;
+      if (event.type !== 'stream_discarded') {
+        streamedLines = 0;
+      }
+    }
+
+    switch (event.type) {
+      case 'step_start':
+        if (event.step > 1) {
+          line(''); // Blank line
+          line(`----Reasoning Step ${event.step}----`);
+        }
+        break;
+
+      case 'content_delta':
+        if (streaming !== 'content') streamedLines++;
+        output(event.delta, 'assistant', streaming === 'content');
+        streaming = 'content';
+        break;
+
+      case 'reasoning_delta':
+        if (streaming !== 'reasoning') streamedLines++;
+        output(event.delta, 'thinking', streaming === 'reasoning');
+        streaming = 'reasoning';
+        break;
+
+      case 'stream_discarded':
+        // The failed stream's text is replaced by the retry (or the error)
+        for (; streamedLines > 0; streamedLines--) {
+          output('', 'discard-line', false);
+        }
+        break;
+
+      case 'tool_call':
+        line(''); // Blank line
+        if (event.name === 'executeCode') {
+          // Code runs in the kernel, whose output is streamed to the terminal directly
+          line(`💡 ${event.arguments.explanation}`);
+          line(''); // Blank line
+          line('🔧 Tool (executeCode):', 'execution');
+          line("```python\n-------");
+          String(event.arguments.code ?? '').split('\n').forEach((codeLine, index) => {
+            if (index === 0 || codeLine.trim()) {
+              line(codeLine);
+            }
+          });
+          line('```\n-------');
+        } else if (event.name === 'update_plan') {
+          line(`📋 Plan updated (${Array.isArray(event.arguments.steps) ? event.arguments.steps.length : 0} steps)`);
+        } else if (event.name === 'mark_step') {
+          line(`📋 Step ${event.arguments.step}: ${event.arguments.status}${event.arguments.note ? ` (${event.arguments.note})` : ''}`);
+        } else if (event.name === 'final_answer') {
+          line('✅ Final answer:', 'execution');
+          if (typeof event.arguments.answer === 'string') {
+            line(event.arguments.answer, 'assistant');
+          }
+          if (event.arguments.result !== undefined) {
+            line('```json\n' + JSON.stringify(event.arguments.result, null, 2) + '\n```', 'assistant');
+          }
+        } else {
+          line(`🔧 Tool (${event.name}):`, 'execution');
+          line(JSON.stringify(event.arguments, null, 2));
+        }
+        break;
+
+      case 'tool_result':
+        // Code output is streamed by the kernel, rejected final answers are logged and plan changes show in the plan panel
+        if (event.name === 'executeCode' || event.name === 'final_answer' || event.cancelled) {
+          break;
+        }
+        if (event.success && (event.name === 'update_plan' || event.name === 'mark_step')) {
+          break;
+        }
+        line(truncateForDisplay(event.content), event.success ? 'result' : 'error');
+        break;
+
+      case 'error':
+        line(`Agent error: ${event.message}`, 'error');
+        break;
+
+      case 'done':
+        line(''); // Blank line
+        if (event.reason === 'completed') {
+          line('----------------------------------');
+        } else if (event.reason === 'cancelled') {
+          line(`⏹ Stopped by user at step ${event.steps}`);
+        } else if (event.reason === 'max_steps') {
+          line(`⚠ Reached maximum reasoning steps (${event.steps})`);
+        }
+        if (event.usage.requests > 0) {
+          const usage = event.usage;
+          const steps = new Set(usage.steps.map(step => step.step)).size;
+          line(`📊 Usage: ${steps} step(s), ${usage.requests} LLM call(s) · ${usage.prompt_tokens.toLocaleString()} prompt + ${usage.completion_tokens.toLocaleString()} completion = ${formatUsage(usage)}`);
+        }
+        break;
+
+      case 'log':
+        line(event.message, event.level === 'info' ? 'info' : 'error');
+        break;
+
+      case 'child': {
+        // Child agents render into a collapsible group that closes when they finish
+        let render = children.get(event.taskId);
+        if (!render) {
+          output(`🧩 Subtask: ${event.task}`, 'group-start', false);
+          render = createAgentEventRenderer(output);
+          children.set(event.taskId, render);
+        }
+        render(event.event);
+        if (event.event.type === 'done') {
+          output('', 'group-end', false);
+          children.delete(event.taskId);
+        }
+        break;
+      }
+    }
+  };
+}
+
 /**
  * Detect if content is markdown or code
  */
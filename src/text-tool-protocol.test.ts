@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatObservation,
+  getTextProtocolInstructions,
+  isObservationMessage,
+  matchesModelList,
+  parseTextToolCalls
+} from './text-tool-protocol';
+
+describe('parseTextToolCalls', () => {
+  it('returns no calls for a plain reply', () => {
+    const reply = 'The mean is 4.2.';
+    expect(parseTextToolCalls(reply)).toEqual({ calls: [], content: reply });
+  });
+
+  it('turns a fenced python block into an executeCode call', () => {
+    const parsed = parseTextToolCalls('Let me load the data.\n```python\nimport pandas as pd\nprint(pd.__version__)\n```');
+
+    expect(parsed.calls).toEqual([{
+      name: 'executeCode',
+      arguments: { code: 'import pandas as pd\nprint(pd.__version__)', explanation: 'Let me load the data.' }
+    }]);
+  });
+
+  it('joins several python blocks into one call', () => {
+    const parsed = parseTextToolCalls('```py\nx = 1\n```\nthen\n```python3\nprint(x)\n```');
+
+    expect(parsed.calls).toHaveLength(1);
+    expect(parsed.calls[0].arguments.code).toBe('x = 1\n\nprint(x)');
+    expect(parsed.calls[0].arguments.explanation).toBe('Run the Python code from the reply');
+  });
+
+  it('ignores blocks in other languages', () => {
+    expect(parseTextToolCalls('```bash\npip install numpy\n```').calls).toEqual([]);
+  });
+
+  it('cuts an observation the model wrote itself', () => {
+    const parsed = parseTextToolCalls('```python\nprint(1 + 1)\n```\nObservation: 2\nThe answer is 2.');
+
+    expect(parsed.content).toBe('```python\nprint(1 + 1)\n```');
+    expect(parsed.calls[0].arguments.code).toBe('print(1 + 1)');
+  });
+
+  it('parses an Action with JSON input', () => {
+    const parsed = parseTextToolCalls('Thought: check the plan\nAction: mark_step\nAction Input: {"step": 1, "status": "done"}');
+
+    expect(parsed.calls).toEqual([{ name: 'mark_step', arguments: { step: 1, status: 'done' } }]);
+  });
+
+  it('prefers an Action over fenced code', () => {
+    const parsed = parseTextToolCalls('For example:\n```python\nprint(df)\n```\nAction: list_variables\nAction Input: {}');
+
+    expect(parsed.calls).toEqual([{ name: 'list_variables', arguments: {} }]);
+  });
+
+  it('reads raw or fenced code as executeCode input', () => {
+    const fenced = parseTextToolCalls('Action: executeCode\nAction Input:\n```python\nprint("hi")\n```');
+    expect(fenced.calls[0].arguments).toEqual({ code: 'print("hi")', explanation: 'Run the code from the Action Input' });
+
+    const raw = parseTextToolCalls('Action: executeCode\nAction Input: print(42)');
+    expect(raw.calls[0].arguments.code).toBe('print(42)');
+  });
+
+  it('passes non-JSON input of other tools as text', () => {
+    const parsed = parseTextToolCalls('Action: search\nAction Input: cell segmentation');
+
+    expect(parsed.calls).toEqual([{ name: 'search', arguments: { input: 'cell segmentation' } }]);
+  });
+
+  it('cuts a made-up observation after an Action', () => {
+    const parsed = parseTextToolCalls('Action: list_variables\nAction Input: {}\nObservation: df, x');
+
+    expect(parsed.calls).toEqual([{ name: 'list_variables', arguments: {} }]);
+    expect(parsed.content).toBe('Action: list_variables\nAction Input: {}');
+  });
+});
+
+describe('observations', () => {
+  it('shows executeCode output as plain text', () => {
+    const observation = formatObservation('executeCode', JSON.stringify({ success: true, output: '42' }));
+    expect(observation).toBe('Observation (executeCode):\n42');
+  });
+
+  it('marks failed executions as errors', () => {
+    const observation = formatObservation('executeCode', JSON.stringify({ success: false, output: 'NameError' }));
+    expect(observation).toBe('Observation (executeCode):\nError:\nNameError');
+  });
+
+  it('keeps other tool results as they are', () => {
+    expect(formatObservation('mark_step', '{"success":true}')).toBe('Observation (mark_step):\n{"success":true}');
+  });
+
+  it('recognizes observation messages', () => {
+    expect(isObservationMessage({ role: 'user', content: formatObservation('executeCode', 'ok') })).toBe(true);
+    expect(isObservationMessage({ role: 'assistant', content: 'Observation (executeCode):\nok' })).toBe(false);
+    expect(isObservationMessage({ role: 'user', content: 'Plot the data' })).toBe(false);
+  });
+});
+
+describe('matchesModelList', () => {
+  it('matches model name prefixes', () => {
+    expect(matchesModelList('qwen2.5-coder:7b', ['llama', 'qwen2.5'])).toBe(true);
+    expect(matchesModelList('gpt-4o', ['llama', 'qwen2.5'])).toBe(false);
+  });
+
+  it('ignores empty entries', () => {
+    expect(matchesModelList('gpt-4o', ['', '  '])).toBe(false);
+  });
+});
+
+describe('getTextProtocolInstructions', () => {
+  it('describes the tools other than executeCode', () => {
+    const tools = new Map([
+      ['executeCode', { schema: { description: 'Run Python' } }],
+      ['mark_step', { schema: { description: 'Update a plan step', parameters: { type: 'object' } } }]
+    ]);
+    const instructions = getTextProtocolInstructions(tools);
+
+    expect(instructions).toContain('- `mark_step`: Update a plan step');
+    expect(instructions).not.toContain('`executeCode`:');
+    expect(instructions).toContain('reply WITHOUT any code block or Action line; that reply is your final answer');
+  });
+
+  it('points to final_answer when it is available', () => {
+    const tools = new Map([['final_answer', { schema: { description: 'Finish' } }]]);
+    expect(getTextProtocolInstructions(tools)).toContain('call `final_answer`');
+  });
+});
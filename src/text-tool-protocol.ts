@@ -0,0 +1,153 @@
+// Text Tool Protocol for Models Without Function Calling
+// Small local models often answer with a fenced Python block or ReAct-style
+// "Action:" lines instead of a proper tool call. In text mode the tools are
+// described in the system prompt, calls are parsed out of the assistant content
+// and their results are sent back as "Observation" user messages.
+import type { ToolSchema } from './agent';
+
+export type ToolProtocol = 'auto' | 'native' | 'text';
+
+/**
+ * A tool call parsed from assistant text
+ */
+export interface TextToolCall {
+  name: string;
+  arguments: any;
+}
+
+/**
+ * Result of parsing an assistant reply
+ */
+export interface ParsedTextReply {
+  calls: TextToolCall[];
+  content: string; // Reply text, cut before any observation the model made up itself
+}
+
+// Start of the user messages carrying tool results
+const OBSERVATION_PREFIX = 'Observation (';
+
+const FENCED_PYTHON_PATTERN = /```(?:python|py|python3)[^\S\n]*\n([\s\S]*?)```/g;
+const ACTION_PATTERN = /^[^\S\n]*Action:[^\S\n]*([A-Za-z_][\w.-]*)[^\S\n]*$/m;
+const ACTION_INPUT_PATTERN = /^[^\S\n]*Action Input:[^\S\n]*/m;
+const OBSERVATION_PATTERN = /^[^\S\n]*Observation:/m;
+
+/**
+ * Whether the model name starts with one of the given prefixes
+ */
+export function matchesModelList(model: string, prefixes: string[]): boolean {
+  return prefixes.some(prefix => prefix.trim() !== '' && model.startsWith(prefix.trim()));
+}
+
+/**
+ * Parse tool calls from an assistant reply. "Action:" lines take precedence;
+ * otherwise all fenced Python blocks are joined into one executeCode call.
+ */
+export function parseTextToolCalls(content: string): ParsedTextReply {
+  const action = ACTION_PATTERN.exec(content);
+  if (action) {
+    // Anything after a made-up "Observation:" is not the model's call
+    const rest = content.substring(action.index + action[0].length);
+    const observation = OBSERVATION_PATTERN.exec(rest);
+    const body = observation ? rest.substring(0, observation.index) : rest;
+    const trimmedContent = observation
+      ? content.substring(0, action.index + action[0].length + observation.index).trimEnd()
+      : content;
+
+    const input = ACTION_INPUT_PATTERN.exec(body);
+    const rawInput = input ? body.substring(input.index + input[0].length).trim() : '';
+    return {
+      calls: [{ name: action[1], arguments: parseActionInput(action[1], rawInput) }],
+      content: trimmedContent
+    };
+  }
+
+  const matches = [...content.matchAll(FENCED_PYTHON_PATTERN)];
+  const blocks = matches.map(match => match[1].trim()).filter(Boolean);
+  if (blocks.length === 0) {
+    return { calls: [], content };
+  }
+
+  const lastBlock = matches[matches.length - 1];
+  const end = lastBlock.index! + lastBlock[0].length;
+  const observation = OBSERVATION_PATTERN.exec(content.substring(end));
+  return {
+    calls: [{
+      name: 'executeCode',
+      arguments: {
+        code: blocks.join('\n\n'),
+        explanation: content.substring(0, content.indexOf('```')).trim() || 'Run the Python code from the reply'
+      }
+    }],
+    content: observation ? content.substring(0, end + observation.index).trimEnd() : content
+  };
+}
+
+/**
+ * Parse an "Action Input:" value: JSON arguments, or raw (optionally fenced) code for executeCode
+ */
+function parseActionInput(name: string, rawInput: string): any {
+  const explanation = 'Run the code from the Action Input';
+  try {
+    const parsed = JSON.parse(rawInput || '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return name === 'executeCode' ? { explanation, ...parsed } : parsed;
+    }
+  } catch {
+    // Not JSON, handled below
+  }
+
+  if (name === 'executeCode') {
+    const fenced = /```(?:\w+)?[^\S\n]*\n([\s\S]*?)```/.exec(rawInput);
+    return { code: (fenced ? fenced[1] : rawInput).trim(), explanation };
+  }
+  return { input: rawInput };
+}
+
+/**
+ * Format a tool result as the observation message sent back to the model
+ */
+export function formatObservation(name: string, content: string): string {
+  let text = content;
+  try {
+    const parsed = JSON.parse(content);
+    // executeCode results are shown as plain output
+    if (name === 'executeCode' && parsed && typeof parsed.output === 'string') {
+      text = parsed.success === false ? `Error:\n${parsed.output}` : parsed.output;
+    }
+  } catch {
+    // Keep the raw content
+  }
+  return `${OBSERVATION_PREFIX}${name}):\n${text}`;
+}
+
+/**
+ * Whether a message is an observation sent back for a text tool call
+ */
+export function isObservationMessage(message: { role: string; content: unknown }): boolean {
+  return message.role === 'user' && typeof message.content === 'string' && message.content.startsWith(OBSERVATION_PREFIX);
+}
+
+/**
+ * System prompt section describing the tools for models that do not get them natively
+ */
+export function getTextProtocolInstructions(tools: Map<string, { schema: ToolSchema }>): string {
+  const otherTools = [...tools.entries()]
+    .filter(([name]) => name !== 'executeCode')
+    .map(([name, tool]) => `- \`${name}\`: ${tool.schema.description}\n  Arguments (JSON schema): ${JSON.stringify(tool.schema.parameters ?? {})}`);
+
+  return `
+**Tool Calling Format (text protocol)**
+Tools are not available as function calls in this session. Call them by writing in your reply:
+- To execute Python code, write ONE fenced block and stop:
+\`\`\`python
+print("hello")
+\`\`\`
+${otherTools.length > 0 ? `- To call another tool, write these two lines and stop:
+Action: <tool name>
+Action Input: <JSON arguments>
+Available tools:
+${otherTools.join('\n')}
+` : ''}- The result is sent back to you in a message starting with "Observation". Never write the observation yourself
+- ${tools.has('final_answer') ? 'When the task is complete, call `final_answer` (or reply WITHOUT any code block or Action line)' : 'When the task is complete, reply WITHOUT any code block or Action line; that reply is your final answer'}
+`;
+}
@@ -21,6 +21,9 @@ export interface UrlParams {
 
   // OpenAI provider
   openai_provider?: string;
+
+  // Mock provider script (URL of a JSON file)
+  mock_script?: string;
 }
 
 export interface AgentArtifactManifest {
@@ -30,6 +33,7 @@ export interface AgentArtifactManifest {
   license: string;
   type: 'agent' | 'deno-app';
   startup_script?: string;
+  packages?: string[]; // Python packages to preload in addition to the ones in settings
   welcomeMessage?: string;
   modelConfig?: {
     base_url?: string;
@@ -95,6 +99,9 @@ export function parseUrlParams(): UrlParams {
   const provider = params.get('openai_provider');
   if (provider) result.openai_provider = provider;
 
+  const mockScript = params.get('mock_script');
+  if (mockScript) result.mock_script = mockScript;
+
   return result;
 }
 
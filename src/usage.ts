@@ -0,0 +1,95 @@
+// Token Usage and Cost Tracking
+import type { LLMUsage } from './llm-provider';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number | null; // USD, null when no price is known for any of the models used
+  requests: number; // LLM calls that reported usage
+}
+
+export interface StepUsage extends LLMUsage {
+  step: number;
+  model: string;
+  cost: number | null;
+}
+
+export interface QueryUsage extends UsageTotals {
+  steps: StepUsage[];
+}
+
+// Default price table (USD per million tokens), editable in settings
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4': { input: 30, output: 60 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-opus-4-1': { input: 15, output: 75 }
+};
+
+export function emptyUsageTotals(): UsageTotals {
+  return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: null, requests: 0 };
+}
+
+/**
+ * Find the price for a model: an exact match, otherwise the longest table key the
+ * model name starts with (so dated versions like "gpt-4o-2024-08-06" match "gpt-4o")
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const key = Object.keys(prices)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+}
+
+/**
+ * Cost of a single LLM call in USD, or null if the model has no price
+ */
+export function computeCost(model: string, usage: LLMUsage, prices: Record<string, ModelPrice>): number | null {
+  const price = findModelPrice(model, prices);
+  if (!price) {
+    return null;
+  }
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+}
+
+/**
+ * Add the usage of one LLM call to running totals (in place)
+ */
+export function addUsage(totals: UsageTotals, usage: LLMUsage, cost: number | null): void {
+  totals.prompt_tokens += usage.prompt_tokens;
+  totals.completion_tokens += usage.completion_tokens;
+  totals.total_tokens += usage.total_tokens;
+  totals.requests++;
+  if (cost !== null) {
+    totals.cost = (totals.cost ?? 0) + cost;
+  }
+}
+
+/**
+ * Format totals for display, e.g. "1,234 tokens · $0.0123"
+ */
+export function formatUsage(totals: UsageTotals): string {
+  const tokens = `${totals.total_tokens.toLocaleString()} tokens`;
+  return totals.cost === null ? tokens : `${tokens} · ${formatCost(totals.cost)}`;
+}
+
+export function formatCost(cost: number): string {
+  return cost >= 1 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(4)}`;
+}